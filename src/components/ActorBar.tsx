@@ -0,0 +1,72 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { Users, UserPlus, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+
+// Scene actors: pick the character being edited, rename it and place it in the world
+export const ActorBar = () => {
+  const {
+      actors, activeActorId,
+      addActor, removeActor, setActiveActor, renameActor, setActorPosition
+  } = useStickmanStore();
+
+  const active = actors.find(a => a.id === activeActorId);
+
+  return (
+      <div className="flex flex-wrap items-center gap-2 mb-2 border-b border-white/10 pb-2 text-xs">
+          <Users size={14} className="text-sky-400"/>
+          {actors.map(actor => (
+              <button
+                  key={actor.id}
+                  onClick={() => setActiveActor(actor.id)}
+                  className={clsx("px-2 py-1 rounded", actor.id === activeActorId ? "bg-sky-600" : "bg-white/10 hover:bg-white/20")}
+              >
+                  {actor.name}
+              </button>
+          ))}
+          <button onClick={addActor} className="p-1 rounded hover:bg-white/20 text-green-400" title="Add actor">
+              <UserPlus size={14}/>
+          </button>
+
+          {active && (
+              <>
+                  <input
+                      key={active.id}
+                      defaultValue={active.name}
+                      onBlur={(e) => {
+                          const name = e.target.value.trim();
+                          if (name && name !== active.name) renameActor(active.id, name);
+                      }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                      className="w-24 bg-white/10 rounded px-2 py-1 text-white"
+                      title="Rename actor"
+                  />
+                  {(['x', 'z'] as const).map(axis => (
+                      <label key={axis} className="flex items-center gap-1 text-white/70 uppercase">
+                          {axis}
+                          <input
+                              type="number"
+                              step={0.1}
+                              value={active.position[axis]}
+                              onChange={(e) => {
+                                  const position = active.position.clone();
+                                  position[axis] = parseFloat(e.target.value) || 0;
+                                  setActorPosition(active.id, position);
+                              }}
+                              className="w-14 bg-white/10 rounded px-1 py-1 text-white"
+                          />
+                      </label>
+                  ))}
+                  {actors.length > 1 && (
+                      <button
+                          onClick={() => removeActor(active.id)}
+                          className="p-1 rounded hover:bg-white/20 text-red-400"
+                          title="Delete this actor"
+                      >
+                          <Trash2 size={14}/>
+                      </button>
+                  )}
+              </>
+          )}
+      </div>
+  );
+};
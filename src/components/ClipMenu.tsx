@@ -0,0 +1,177 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { Film, ChevronDown, Plus, Copy, Trash2, GripVertical, Repeat } from 'lucide-react';
+import clsx from 'clsx';
+import { useState, useRef, useEffect } from 'react';
+import { getClipFps } from '../core/StickmanTimeline';
+
+// Animate Mode: the clip selector. The dropdown lists the clips (click to open, double-click to
+// rename, drag the grip to reorder) with duplicate/delete per clip, and the playback settings of
+// the active clip.
+export const ClipMenu = () => {
+  const {
+      clips, activeClipId, setActiveClip, addClip, deleteClip, duplicateClip, moveClip,
+      updateClipName, setClipDuration, setClipLoop, setClipFps
+  } = useStickmanStore();
+  const [open, setOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const activeClip = clips.find(c => c.id === activeClipId) || clips[0];
+
+  useEffect(() => {
+      const handleClickOutside = (event: MouseEvent) => {
+          if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+              setOpen(false);
+          }
+      };
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const finishRename = (id: string, value: string) => {
+      const name = value.trim();
+      const clip = clips.find(c => c.id === id);
+      if (clip && name && name !== clip.name) updateClipName(id, name);
+      setRenamingId(null);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+      if (window.confirm(`Delete the clip "${name}"? Its keyframes and markers go with it.`)) deleteClip(id);
+  };
+
+  const handleDrop = () => {
+      if (draggingId && dropIndex !== null) {
+          // The dragged clip no longer counts for the positions after it
+          const from = clips.findIndex(c => c.id === draggingId);
+          moveClip(draggingId, dropIndex > from ? dropIndex - 1 : dropIndex);
+      }
+      setDraggingId(null);
+      setDropIndex(null);
+  };
+
+  const number = (value: string, apply: (v: number) => void) => {
+      const v = parseFloat(value);
+      if (v > 0) apply(v);
+  };
+
+  return (
+      <div className="relative" ref={menuRef}>
+          <div
+              className="flex items-center gap-2 cursor-pointer hover:bg-white/10 p-1 rounded"
+              onClick={() => setOpen(!open)}
+          >
+               <Film size={14} className="text-purple-400"/>
+               <span className="text-xs font-bold uppercase">{activeClip.name}</span>
+               <ChevronDown size={12} />
+          </div>
+           {/* Dropdown Menu */}
+          {open && (
+              <div className="absolute bottom-full left-0 mb-2 w-60 bg-black/90 rounded-lg shadow-xl border border-white/10 p-1 z-20">
+                  <div className="max-h-[200px] overflow-y-auto" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+                      {clips.map((clip, index) => (
+                          <div key={clip.id}
+                              draggable={renamingId !== clip.id}
+                              onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  setDraggingId(clip.id);
+                              }}
+                              onDragOver={(e) => {
+                                  e.preventDefault();
+                                  const rect = e.currentTarget.getBoundingClientRect();
+                                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                              }}
+                              onDragEnd={() => { setDraggingId(null); setDropIndex(null); }}
+                              className={clsx(
+                                  "group flex items-center gap-1 p-1 text-xs rounded hover:bg-white/20 cursor-pointer border-y-2 border-transparent",
+                                  clip.id === activeClipId && "bg-purple-600",
+                                  clip.id === draggingId && "opacity-40",
+                                  draggingId && dropIndex === index && "border-t-white",
+                                  draggingId && dropIndex === index + 1 && index === clips.length - 1 && "border-b-white"
+                              )}
+                              onClick={() => { if (renamingId !== clip.id) { setActiveClip(clip.id); setOpen(false); } }}
+                              onDoubleClick={() => setRenamingId(clip.id)}
+                              title="Double-click to rename, drag to reorder"
+                          >
+                              <GripVertical size={12} className="text-white/40 cursor-grab shrink-0"/>
+                              {renamingId === clip.id ? (
+                                  <input
+                                      autoFocus
+                                      defaultValue={clip.name}
+                                      onClick={(e) => e.stopPropagation()}
+                                      onBlur={(e) => finishRename(clip.id, e.target.value)}
+                                      onKeyDown={(e) => {
+                                          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                                          if (e.key === 'Escape') setRenamingId(null);
+                                      }}
+                                      className="flex-1 min-w-0 bg-white/10 rounded px-1 text-white"
+                                  />
+                              ) : (
+                                  <span className="flex-1 truncate">{clip.name}</span>
+                              )}
+                              <span className="text-white/50">{clip.duration.toFixed(1)}s</span>
+                              <button
+                                  onClick={(e) => { e.stopPropagation(); duplicateClip(clip.id); setOpen(false); }}
+                                  className="opacity-0 group-hover:opacity-100 hover:text-cyan-400"
+                                  title="Duplicate"
+                              >
+                                  <Copy size={12}/>
+                              </button>
+                              <button
+                                  onClick={(e) => { e.stopPropagation(); handleDelete(clip.id, clip.name); }}
+                                  className="opacity-0 group-hover:opacity-100 hover:text-red-400"
+                                  title="Delete"
+                              >
+                                  <Trash2 size={12}/>
+                              </button>
+                          </div>
+                      ))}
+                  </div>
+                  <div className="border-t border-white/10 mt-1 pt-1">
+                      <button onClick={addClip} className="w-full text-left p-2 text-xs hover:bg-white/20 text-green-400 flex items-center gap-1">
+                          <Plus size={12}/> New Animation
+                      </button>
+                  </div>
+
+                  {/* Active Clip Settings */}
+                  <div className="border-t border-white/10 mt-1 pt-1 px-1 flex items-center gap-2 text-xs text-white/70">
+                      <label className="flex items-center gap-1" title="Length of the clip. Keys past the end are kept but not played.">
+                          <input
+                              key={`duration-${activeClip.id}-${activeClip.duration}`}
+                              type="number"
+                              min={0.1}
+                              step={0.1}
+                              defaultValue={+activeClip.duration.toFixed(3)}
+                              onBlur={(e) => number(e.target.value, v => setClipDuration(activeClip.id, v))}
+                              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                              className="w-12 bg-white/10 rounded px-1 py-0.5 text-white"
+                          />
+                          s
+                      </label>
+                      <label className="flex items-center gap-1" title="Frame rate the playhead snaps to">
+                          <input
+                              key={`fps-${activeClip.id}-${getClipFps(activeClip)}`}
+                              type="number"
+                              min={1}
+                              step={1}
+                              defaultValue={getClipFps(activeClip)}
+                              onBlur={(e) => number(e.target.value, v => setClipFps(activeClip.id, Math.round(v)))}
+                              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                              className="w-10 bg-white/10 rounded px-1 py-0.5 text-white"
+                          />
+                          fps
+                      </label>
+                      <button
+                          onClick={() => setClipLoop(activeClip.id, activeClip.loop === false)}
+                          className={clsx("ml-auto px-2 py-0.5 rounded flex items-center gap-1", activeClip.loop !== false ? "bg-purple-600 text-white" : "bg-white/10 hover:bg-white/20")}
+                          title="Play again from the start when the clip ends (also used by the player)"
+                      >
+                          <Repeat size={12}/> Loop
+                      </button>
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
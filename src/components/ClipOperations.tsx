@@ -0,0 +1,150 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { Wand2, ArrowLeftRight, Repeat, Scissors } from 'lucide-react';
+import { useState } from 'react';
+
+const inputClass = "w-14 bg-white/10 rounded px-1 py-0.5 text-white";
+const applyClass = "bg-white/10 hover:bg-white/20 px-2 py-0.5 rounded";
+
+// Animate Mode: operations that build a new clip from the active one, plus root-motion extraction
+export const ClipOperations = () => {
+  const {
+      clips, activeClipId, currentTime,
+      reverseClip, retimeClip, retimeClipToDuration, trimClip, pingPongClip, appendClip, splitClip,
+      extractRootMotion, bakeRootMotion
+  } = useStickmanStore();
+  const [open, setOpen] = useState(false);
+
+  const activeClip = clips.find(c => c.id === activeClipId) || clips[0];
+  const others = clips.filter(c => c.id !== activeClip.id);
+
+  const [duration, setDuration] = useState(activeClip.duration);
+  const [speed, setSpeed] = useState(100);
+  const [trim, setTrim] = useState<[number, number]>([0, activeClip.duration]);
+  const [appendId, setAppendId] = useState('');
+  const [gap, setGap] = useState(0.25);
+  const [withYaw, setWithYaw] = useState(false);
+
+  const toggle = () => {
+      // Start from the active clip's current range every time the panel opens
+      if (!open) {
+          setDuration(activeClip.duration);
+          setTrim([0, activeClip.duration]);
+      }
+      setOpen(!open);
+  };
+
+  const number = (value: string, fallback: number) => {
+      const v = parseFloat(value);
+      return isNaN(v) ? fallback : Math.max(0, v);
+  };
+
+  return (
+      <div className="relative">
+          <button
+              onClick={toggle}
+              className="px-2 py-1 rounded text-xs flex items-center gap-1 bg-white/10 hover:bg-white/20"
+              title="Make a new clip from this one, or extract its root motion"
+          >
+              <Wand2 size={12}/> Clip Tools
+          </button>
+
+          {open && (
+              <div className="absolute bottom-full right-0 mb-2 w-64 bg-black/90 rounded-lg shadow-xl border border-white/10 p-2 z-20 flex flex-col gap-1.5 text-xs">
+                  <div className="flex gap-1">
+                      <button onClick={reverseClip} className="flex-1 py-1 rounded bg-white/10 hover:bg-white/20 flex items-center justify-center gap-1">
+                          <ArrowLeftRight size={12}/> Reverse
+                      </button>
+                      <button onClick={pingPongClip} className="flex-1 py-1 rounded bg-white/10 hover:bg-white/20 flex items-center justify-center gap-1">
+                          <Repeat size={12}/> Ping-Pong
+                      </button>
+                  </div>
+                  <button
+                      onClick={splitClip}
+                      disabled={currentTime <= 0 || currentTime >= activeClip.duration}
+                      className="py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40 flex items-center justify-center gap-1"
+                      title="Two new clips: before and after the playhead"
+                  >
+                      <Scissors size={12}/> Split at {currentTime.toFixed(2)}s
+                  </button>
+
+                  <div className="flex items-center justify-between gap-1 text-white/70">
+                      Duration
+                      <span className="flex gap-1">
+                          <input type="number" min={0.01} step={0.1} value={duration} onChange={(e) => setDuration(number(e.target.value, duration))} className={inputClass}/>
+                          <button onClick={() => retimeClipToDuration(duration)} className={applyClass}>Retime</button>
+                      </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-1 text-white/70">
+                      Speed %
+                      <span className="flex gap-1">
+                          <input type="number" min={1} step={10} value={speed} onChange={(e) => setSpeed(number(e.target.value, speed))} className={inputClass}/>
+                          <button onClick={() => retimeClip(speed / 100)} className={applyClass}>Retime</button>
+                      </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-1 text-white/70">
+                      Trim
+                      <span className="flex gap-1">
+                          <input type="number" min={0} step={0.1} value={trim[0]} onChange={(e) => setTrim([number(e.target.value, trim[0]), trim[1]])} className={inputClass}/>
+                          <input type="number" min={0} step={0.1} value={trim[1]} onChange={(e) => setTrim([trim[0], number(e.target.value, trim[1])])} className={inputClass}/>
+                          <button onClick={() => trimClip(trim[0], trim[1])} className={applyClass}>Trim</button>
+                      </span>
+                  </div>
+
+                  {others.length > 0 && (
+                      <div className="flex items-center justify-between gap-1 text-white/70">
+                          Append
+                          <span className="flex gap-1">
+                              <select
+                                  value={appendId}
+                                  onChange={(e) => setAppendId(e.target.value)}
+                                  className="w-20 bg-white/10 rounded px-1 py-0.5 text-white"
+                              >
+                                  <option value="" className="bg-black">Clip...</option>
+                                  {others.map(c => <option key={c.id} value={c.id} className="bg-black">{c.name}</option>)}
+                              </select>
+                              <input
+                                  type="number"
+                                  min={0}
+                                  step={0.05}
+                                  value={gap}
+                                  onChange={(e) => setGap(number(e.target.value, gap))}
+                                  className="w-12 bg-white/10 rounded px-1 py-0.5 text-white"
+                                  title="Blend gap (s)"
+                              />
+                              <button onClick={() => appendId && appendClip(appendId, gap)} disabled={!appendId} className={applyClass + " disabled:opacity-40"}>Add</button>
+                          </span>
+                      </div>
+                  )}
+
+                  {/* Root motion changes this clip rather than making a new one */}
+                  <div className="flex items-center justify-between gap-1 text-white/70 border-t border-white/10 pt-1.5">
+                      Root Motion
+                      {activeClip.rootMotion ? (
+                          <button
+                              onClick={bakeRootMotion}
+                              className={applyClass}
+                              title="Put the hip's travel back into the keyframes"
+                          >
+                              Bake Back
+                          </button>
+                      ) : (
+                          <span className="flex items-center gap-1">
+                              <label className="flex items-center gap-1">
+                                  <input type="checkbox" checked={withYaw} onChange={(e) => setWithYaw(e.target.checked)}/>
+                                  Yaw
+                              </label>
+                              <button
+                                  onClick={() => extractRootMotion(withYaw)}
+                                  className={applyClass}
+                                  title="Move the hip's horizontal travel into a root-motion track so the clip plays in place"
+                              >
+                                  Extract
+                              </button>
+                          </span>
+                      )}
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
@@ -1,10 +1,19 @@
-import { useStickmanStore } from '../store/useStickmanStore';
-import { Play, Pause, Plus, Film, ChevronDown, Share2, FolderOpen } from 'lucide-react';
+import { useStickmanStore, beginHistoryGesture } from '../store/useStickmanStore';
+import { RigPanel } from './RigPanel';
+import { StyleInspector } from './StyleInspector';
+import { ActorBar } from './ActorBar';
+import { Timeline } from './Timeline';
+import { OnionSkinSettings } from './OnionSkinSettings';
+import { ClipMenu } from './ClipMenu';
+import { ClipOperations } from './ClipOperations';
+import { GaitGenerator } from './GaitGenerator';
+import { PoseLibrary } from './PoseLibrary';
+import { findKeyframeAt } from '../core/StickmanTimeline';
+import { getSubtreeChannels } from '../core/StickmanChannels';
+import { Plus, Share2, FolderOpen, FlipHorizontal2, Undo2, Redo2, Flag, BookMarked, Copy, ClipboardPaste } from 'lucide-react';
 import clsx from 'clsx';
-import { useState, useRef, useEffect } from 'react';
-import { Share } from '@capacitor/share';
-import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
-import { Capacitor } from '@capacitor/core';
+import { useState, useEffect } from 'react';
+import { saveTextFile, openTextFile } from './files';
 
 // Vertical Slider Component
 const VerticalSlider = ({ value, min, max, onChange, label }: { value: number, min: number, max: number, onChange: (v: number) => void, label: string }) => {
@@ -18,6 +27,7 @@ const VerticalSlider = ({ value, min, max, onChange, label }: { value: number, m
                     max={max}
                     step={0.01}
                     value={value}
+                    onPointerDown={beginHistoryGesture}
                     onChange={(e) => onChange(parseFloat(e.target.value))}
                     className="absolute w-[100px] h-4 origin-center -rotate-90 top-[40px] appearance-none bg-white/20 rounded-full outline-none cursor-pointer"
                     style={{
@@ -43,146 +53,91 @@ const MiniBtn = ({ label, active, color, onClick }: { label: string, active: boo
     </button>
 );
 
+// Poses go through the system clipboard so they can be pasted in another window. The last copy is
+// kept as well, for browsers that refuse clipboard access.
+let lastCopiedPose = '';
+
+const copyPoseToClipboard = async (jointIds?: string[]) => {
+    lastCopiedPose = useStickmanStore.getState().copyPose(jointIds);
+    try {
+        await navigator.clipboard.writeText(lastCopiedPose);
+    } catch (err) {
+        console.warn("Clipboard write failed:", err);
+    }
+};
+
+const pastePoseFromClipboard = async (mirror = false) => {
+    let text = lastCopiedPose;
+    try {
+        text = await navigator.clipboard.readText();
+    } catch (err) {
+        console.warn("Clipboard read failed:", err);
+    }
+    if (!useStickmanStore.getState().pastePose(text, mirror)) alert("There is no pose on the clipboard.");
+};
+
+// Ctrl+C copies the selected joint and the joints below it, or the whole pose without a selection
+const copySelectionToClipboard = () => {
+    const { currentSkeleton, selectedNodeId } = useStickmanStore.getState();
+    const selected = selectedNodeId ? currentSkeleton.root.findNode(selectedNodeId) : null;
+    copyPoseToClipboard(selected ? getSubtreeChannels(selected) : undefined);
+};
+
 export const EditorUI = () => {
   const {
-      isPlaying, togglePlay,
       modeType, setModeType,
-      addKeyframe, currentTime,
-      clips, activeClipId, setActiveClip, addClip,
+      addKeyframe, currentTime, autoKey, setAutoKey, selectedNodeId, addMarker,
+      clips, activeClipId, setClipInterpolation, setClipCurve,
       saveProject, loadProject,
       currentSkeleton,
       cameraView, setCameraView,
       axisMode, setAxisMode,
-      setHeadRadius, setStrokeWidth
+      transformMode, setTransformMode,
+      symmetryEnabled, setSymmetryEnabled, mirrorPose,
+      setHeadRadius, setStrokeWidth,
+      undo, redo, undoStack, redoStack
   } = useStickmanStore();
 
-  const [showClipDropdown, setShowClipDropdown] = useState(false);
-  const dropdownRef = useRef<HTMLDivElement>(null);
+  const [showPoses, setShowPoses] = useState(false);
 
   const activeClip = clips.find(c => c.id === activeClipId) || clips[0];
+  const selectedJoint = selectedNodeId ? currentSkeleton.root.findNode(selectedNodeId) : null;
 
+  // Undo: Ctrl/Cmd+Z. Redo: Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y. Text fields keep their own undo.
+  // Pose clipboard: Ctrl/Cmd+C, Ctrl/Cmd+V, Ctrl/Cmd+Shift+V pastes mirrored.
   useEffect(() => {
-      const handleClickOutside = (event: MouseEvent) => {
-          if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
-              setShowClipDropdown(false);
-          }
-      };
-      document.addEventListener('mousedown', handleClickOutside);
-      return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
-  const handleSave = async (format: 'sa3' | 'sap' = 'sa3') => {
-      try {
-          const json = saveProject(format);
-          const fileName = `stickman_project_${Date.now()}.${format}`;
-
-          if (Capacitor.isNativePlatform()) {
-              // Android / iOS Logic
-              try {
-                  const writeResult = await Filesystem.writeFile({
-                      path: fileName,
-                      data: json,
-                      directory: Directory.Cache,
-                      encoding: Encoding.UTF8,
-                  });
-
-                  await Share.share({
-                      title: 'Stickman Project',
-                      text: 'Here is my stickman animation project.',
-                      url: writeResult.uri,
-                      dialogTitle: 'Save Project',
-                  });
-              } catch (err) {
-                  console.error("Native Save Failed:", err);
-                  alert("Save failed: " + err);
-              }
+      const handleKeyDown = (event: KeyboardEvent) => {
+          const target = event.target as HTMLElement;
+          if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+          if (!(event.ctrlKey || event.metaKey)) return;
+          const key = event.key.toLowerCase();
+          if (key === 'z' && !event.shiftKey) {
+              event.preventDefault();
+              undo();
+          } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+              event.preventDefault();
+              redo();
+          } else if (useStickmanStore.getState().modeType === 'rig') {
               return;
+          } else if (key === 'c' && !window.getSelection()?.toString()) {
+              event.preventDefault();
+              copySelectionToClipboard();
+          } else if (key === 'v') {
+              event.preventDefault();
+              pastePoseFromClipboard(event.shiftKey);
           }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
-          // Step 1: Desktop "Save As" (File System Access API)
-          // Use type assertion to avoid TS errors if types aren't available
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          if (typeof (window as any).showSaveFilePicker === 'function') {
-              try {
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                  const handle = await (window as any).showSaveFilePicker({
-                      suggestedName: fileName,
-                      types: [{
-                          description: 'Stickman Project',
-                          accept: { 'application/json': ['.' + format] },
-                      }],
-                  });
-                  const writable = await handle.createWritable();
-                  await writable.write(json);
-                  await writable.close();
-                  return; // Success
-              } catch (err: unknown) {
-                  // Ignore AbortError (user cancelled)
-                  if ((err as Error).name !== 'AbortError') {
-                      console.error("FilePicker failed:", err);
-                      // Fallthrough to other methods if it wasn't a user cancel?
-                      // No, usually if picker fails technically we might fallback, but if user cancels we stop.
-                      // Let's fallback only if it's not AbortError.
-                      throw err;
-                  }
-                  return;
-              }
-          }
-
-          // Step 2: Mobile Web / Share Sheet (navigator.share)
-          let shared = false;
-          // Use text/plain for broader compatibility on Android/Share Sheet
-          const blob = new Blob([json], { type: 'text/plain' });
-
-          if (navigator.share && navigator.canShare) {
-             try {
-                 const file = new File([blob], fileName, { type: 'text/plain' });
-                 if (navigator.canShare({ files: [file] })) {
-                     await navigator.share({
-                         files: [file],
-                         title: 'Stickman Project',
-                         text: 'Here is my stickman animation project.',
-                     });
-                     shared = true;
-                 }
-             } catch (err) {
-                 console.warn("Share failed/cancelled:", err);
-                 // Proceed to fallback download
-             }
-          }
-
-          // Step 3: Fallback (Legacy Download Link)
-          if (!shared) {
-              const url = URL.createObjectURL(blob);
-              const link = document.createElement('a');
-              link.href = url;
-              link.download = fileName;
-              document.body.appendChild(link);
-              link.click();
-              document.body.removeChild(link);
-              URL.revokeObjectURL(url);
-          }
-      } catch (e) {
-          console.error("Save failed:", e);
-          alert("Save failed: " + e);
-      }
-  };
+  const handleSave = (format: 'sa3' | 'sap' = 'sa3') => saveTextFile(
+      saveProject(format),
+      `stickman_project_${Date.now()}.${format}`,
+      { title: 'Stickman Project', text: 'Here is my stickman animation project.', extension: format }
+  );
 
-  const handleLoad = () => {
-      const input = document.createElement('input');
-      input.type = 'file';
-      // Use */* to allow picking any file (fixes grayed out files on Google Drive/Android)
-      input.accept = '*/*';
-      input.onchange = (e) => {
-          const file = (e.target as HTMLInputElement).files?.[0];
-          if (file) {
-              const reader = new FileReader();
-              reader.onload = (ev) => loadProject(ev.target?.result as string);
-              reader.readAsText(file);
-          }
-      };
-      input.click();
-  };
+  const handleLoad = () => openTextFile(loadProject);
 
   return (
     <div className="absolute top-0 left-0 w-full h-full pointer-events-none flex flex-col justify-between">
@@ -203,6 +158,13 @@ export const EditorUI = () => {
               >
                   Animate
               </button>
+              <div className="w-px bg-white/20 mx-1 my-2"></div>
+              <button
+                  onClick={() => setModeType('rig')}
+                  className={clsx("px-4 py-1 rounded-full text-sm font-bold transition-all", modeType === 'rig' ? "bg-amber-600 text-white" : "text-white/60 hover:text-white")}
+              >
+                  Rig
+              </button>
           </div>
       </div>
 
@@ -227,6 +189,13 @@ export const EditorUI = () => {
               <MiniBtn label="Z" active={axisMode === 'z'} color="#3b82f6" onClick={() => setAxisMode('z')} />
           </div>
 
+          {/* Gizmo Mode */}
+          <div className="bg-black/60 backdrop-blur-md rounded-lg p-1 flex flex-col items-center">
+              <MiniBtn label="T" active={transformMode === 'translate'} color="#8b5cf6" onClick={() => setTransformMode('translate')} />
+              <MiniBtn label="R" active={transformMode === 'rotate'} color="#8b5cf6" onClick={() => setTransformMode('rotate')} />
+              <MiniBtn label="S" active={symmetryEnabled} color="#ec4899" onClick={() => setSymmetryEnabled(!symmetryEnabled)} />
+          </div>
+
           {/* Style Sliders */}
           <div className="bg-black/60 backdrop-blur-md rounded-lg p-1 flex flex-col items-center">
               <VerticalSlider label="Head" value={currentSkeleton.headRadius} min={0.1} max={1.0} onChange={setHeadRadius} />
@@ -237,93 +206,153 @@ export const EditorUI = () => {
       {/* Bottom Bar: Timeline & Tools */}
       <div className="pointer-events-auto mt-auto m-2 bg-black/60 backdrop-blur-md rounded-xl p-3 text-white">
 
+        {/* Scene Actors (Common) */}
+        <ActorBar />
+
         {/* Playback & Keyframes (Animate Mode) */}
         {modeType === 'animate' && (
             <div className="flex flex-col gap-2 mb-2 border-b border-white/10 pb-2">
                 {/* Clips Selector */}
-                <div className="relative" ref={dropdownRef}>
-                    <div
-                        className="flex items-center gap-2 cursor-pointer hover:bg-white/10 p-1 rounded"
-                        onClick={() => setShowClipDropdown(!showClipDropdown)}
-                    >
-                         <Film size={14} className="text-purple-400"/>
-                         <span className="text-xs font-bold uppercase">{activeClip.name}</span>
-                         <ChevronDown size={12} />
-                    </div>
-                     {/* Dropdown Menu */}
-                    {showClipDropdown && (
-                        <div className="absolute bottom-full left-0 mb-2 w-48 bg-black/90 rounded-lg shadow-xl border border-white/10 p-1 max-h-[200px] overflow-y-auto">
-                            {clips.map(clip => (
-                                <div key={clip.id}
-                                    className={clsx("p-2 text-xs rounded hover:bg-white/20 cursor-pointer", clip.id === activeClipId && "bg-purple-600")}
-                                    onClick={() => { setActiveClip(clip.id); setShowClipDropdown(false); }}
-                                >
-                                    {clip.name}
-                                </div>
-                            ))}
-                            <div className="border-t border-white/10 mt-1 pt-1">
-                                <button onClick={addClip} className="w-full text-left p-2 text-xs hover:bg-white/20 text-green-400 flex items-center gap-1">
-                                    <Plus size={12}/> New Animation
-                                </button>
-                            </div>
-                        </div>
-                    )}
+                <div className="flex items-center justify-between">
+                <ClipMenu />
+                <ClipOperations />
+                <GaitGenerator />
                 </div>
 
-                {/* Timeline Controls */}
-                <div className="flex items-center gap-3">
-                    <button onClick={togglePlay} className="hover:text-purple-400">
-                        {isPlaying ? <Pause size={24} /> : <Play size={24} />}
-                    </button>
-
-                    <div className="flex-1 flex flex-col justify-center h-8 relative bg-black/30 rounded px-2">
-                         {/* Progress Bar */}
-                         <div className="absolute top-0 bottom-0 left-0 bg-white/5 w-full pointer-events-none"/>
-                         <div
-                            className="absolute top-0 bottom-0 left-0 bg-purple-600/30 transition-all duration-75"
-                            style={{ width: `${(currentTime / activeClip.duration) * 100}%` }}
-                         />
-
-                         {/* Keyframes Dots */}
-                         {activeClip.keyframes.map(kf => (
-                             <div
-                                key={kf.id}
-                                className="absolute top-1/2 -translate-y-1/2 w-2 h-2 bg-yellow-400 rounded-full shadow-sm"
-                                style={{ left: `${(kf.timestamp / activeClip.duration) * 100}%` }}
-                             />
-                         ))}
+                <Timeline />
 
-                         {/* Playhead */}
-                         <div
-                             className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 transition-all duration-75"
-                             style={{ left: `${(currentTime / activeClip.duration) * 100}%` }}
-                         />
+                 <div className="flex justify-between items-center">
+                    <div className="flex gap-1">
+                        <button
+                            onClick={() => addKeyframe()}
+                            className="bg-green-600 hover:bg-green-700 px-3 py-1 rounded text-xs font-bold flex items-center gap-1"
+                            title="Key the current pose at the playhead (replaces a key already there)"
+                        >
+                            <Plus size={12}/> {findKeyframeAt(activeClip, currentTime) ? 'Update Key' : 'Keyframe'}
+                        </button>
+                        {selectedJoint && (
+                            <button
+                                onClick={() => addKeyframe(getSubtreeChannels(selectedJoint))}
+                                className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded text-xs"
+                                title="Key only the selected joint and the joints below it"
+                            >
+                                Key Joint
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setAutoKey(!autoKey)}
+                            className={clsx("px-3 py-1 rounded text-xs font-bold", autoKey ? "bg-red-600" : "bg-white/10 hover:bg-white/20")}
+                            title="Auto-key: pose edits are keyed at the playhead as you make them"
+                        >
+                            Auto
+                        </button>
+                        <button
+                            onClick={() => addMarker()}
+                            className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded text-xs flex items-center gap-1"
+                            title="Add an event marker at the playhead (fired by the player when playback crosses it)"
+                        >
+                            <Flag size={12}/> Marker
+                        </button>
                     </div>
-
-                    <div className="text-xs font-mono w-16 text-right">
-                        {currentTime.toFixed(2)}s
+                    <div className="flex gap-1">
+                        <OnionSkinSettings />
+                        <button
+                            onClick={() => setClipInterpolation(activeClip.id, activeClip.interpolation === 'position' ? 'rotation' : 'position')}
+                            className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded text-xs"
+                            title="Rotation keeps bone lengths between keyframes; Linear interpolates positions"
+                        >
+                            {activeClip.interpolation === 'position' ? 'Linear' : 'Rotation'}
+                        </button>
+                        <button
+                            onClick={() => setClipCurve(activeClip.id, activeClip.curve === 'spline' ? 'linear' : 'spline')}
+                            className={clsx("px-3 py-1 rounded text-xs", activeClip.curve === 'spline' ? "bg-purple-600" : "bg-white/10 hover:bg-white/20")}
+                            title="Spline runs a smooth curve through neighbouring keyframes"
+                        >
+                            Spline
+                        </button>
                     </div>
-                </div>
-
-                 <div className="flex justify-between items-center">
-                    <button
-                        onClick={addKeyframe}
-                        className="bg-green-600 hover:bg-green-700 px-3 py-1 rounded text-xs font-bold flex items-center gap-1"
-                    >
-                        <Plus size={12}/> Keyframe
-                    </button>
                  </div>
             </div>
         )}
 
+        {/* Selected Joint Style (Pose Mode) */}
+        {modeType === 'pose' && <StyleInspector />}
+
+        {/* Joint Tree Editing (Rig Mode) */}
+        {modeType === 'rig' && <RigPanel />}
+
+        {/* Saved Poses (Pose & Animate Mode) */}
+        {showPoses && modeType !== 'rig' && <PoseLibrary />}
+
         {/* Toolbar (Common) */}
         <div className="flex items-center gap-2 overflow-x-auto pb-1">
+             <button
+                 className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-2 py-1.5 rounded text-xs disabled:opacity-30"
+                 onClick={undo}
+                 disabled={undoStack.length === 0}
+                 title="Undo (Ctrl+Z)"
+             >
+                 <Undo2 size={12}/>
+             </button>
+             <button
+                 className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-2 py-1.5 rounded text-xs disabled:opacity-30"
+                 onClick={redo}
+                 disabled={redoStack.length === 0}
+                 title="Redo (Ctrl+Shift+Z)"
+             >
+                 <Redo2 size={12}/>
+             </button>
              <button className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs" onClick={() => handleSave('sa3')}>
                  <Share2 size={12}/> Save Project
              </button>
              <button className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs" onClick={handleLoad}>
                  <FolderOpen size={12}/> Load
              </button>
+             <button className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs" onClick={() => mirrorPose()}>
+                 <FlipHorizontal2 size={12}/> Mirror
+             </button>
+             {modeType !== 'rig' && (
+                 <>
+                     <button
+                         className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs"
+                         onClick={() => copyPoseToClipboard()}
+                         title="Copy the whole pose (Ctrl+C copies the selected joint and below)"
+                     >
+                         <Copy size={12}/> Copy
+                     </button>
+                     {selectedJoint && (
+                         <button
+                             className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs"
+                             onClick={() => copyPoseToClipboard(getSubtreeChannels(selectedJoint))}
+                             title="Copy the selected joint and the joints below it"
+                         >
+                             <Copy size={12}/> Copy Joint
+                         </button>
+                     )}
+                     <button
+                         className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs"
+                         onClick={() => pastePoseFromClipboard()}
+                         title="Paste a copied pose (Ctrl+V). In Animate mode it is keyed at the playhead."
+                     >
+                         <ClipboardPaste size={12}/> Paste
+                     </button>
+                     <button
+                         className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs"
+                         onClick={() => pastePoseFromClipboard(true)}
+                         title="Paste onto the opposite side, reflected (Ctrl+Shift+V)"
+                     >
+                         <FlipHorizontal2 size={12}/> Paste Mirrored
+                     </button>
+                 </>
+             )}
+             {modeType !== 'rig' && (
+                 <button
+                     className={clsx("flex items-center gap-1 px-3 py-1.5 rounded text-xs", showPoses ? "bg-cyan-600" : "bg-white/10 hover:bg-white/20")}
+                     onClick={() => setShowPoses(!showPoses)}
+                 >
+                     <BookMarked size={12}/> Poses
+                 </button>
+             )}
              {/* OBJ Export Placeholder */}
              <button className="flex items-center gap-1 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded text-xs text-white/50 cursor-not-allowed">
                  OBJ
@@ -0,0 +1,99 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { WALK_GAIT, RUN_GAIT, StickmanGaitParams } from '../core/StickmanGait';
+import { Footprints } from 'lucide-react';
+import { useState } from 'react';
+import clsx from 'clsx';
+
+type NumberParam = Exclude<keyof StickmanGaitParams, 'inPlace'>;
+
+// Angles are edited in degrees
+const FIELDS: { key: NumberParam, label: string, step: number, degrees?: boolean }[] = [
+  { key: 'stride', label: 'Stride', step: 0.05 },
+  { key: 'cadence', label: 'Steps/min', step: 5 },
+  { key: 'armSwing', label: 'Arm Swing°', step: 5, degrees: true },
+  { key: 'elbowBend', label: 'Elbow Bend°', step: 5, degrees: true },
+  { key: 'bounce', label: 'Bounce', step: 0.01 },
+  { key: 'footLift', label: 'Foot Lift', step: 0.05 },
+  { key: 'lean', label: 'Lean°', step: 1, degrees: true },
+  { key: 'duration', label: 'Duration', step: 0.5 },
+];
+
+const PRESETS = { Walk: WALK_GAIT, Run: RUN_GAIT };
+
+// Animate Mode: builds a looping walk or run cycle for the current actor
+export const GaitGenerator = () => {
+  const { generateGait } = useStickmanStore();
+  const [open, setOpen] = useState(false);
+  const [preset, setPreset] = useState<keyof typeof PRESETS>('Walk');
+  const [params, setParams] = useState<StickmanGaitParams>(WALK_GAIT);
+
+  const choosePreset = (name: keyof typeof PRESETS) => {
+      setPreset(name);
+      setParams(PRESETS[name]);
+  };
+
+  const toDisplay = (field: typeof FIELDS[number]) => {
+      const value = params[field.key];
+      return field.degrees ? Math.round(value * 180 / Math.PI) : value;
+  };
+
+  const setField = (field: typeof FIELDS[number], value: string) => {
+      const v = parseFloat(value);
+      if (isNaN(v)) return;
+      setParams({ ...params, [field.key]: field.degrees ? v * Math.PI / 180 : v });
+  };
+
+  return (
+      <div className="relative">
+          <button
+              onClick={() => setOpen(!open)}
+              className="px-2 py-1 rounded text-xs flex items-center gap-1 bg-white/10 hover:bg-white/20"
+              title="Generate a walk or run cycle"
+          >
+              <Footprints size={12}/> Cycle
+          </button>
+
+          {open && (
+              <div className="absolute bottom-full right-0 mb-2 w-56 bg-black/90 rounded-lg shadow-xl border border-white/10 p-2 z-20 flex flex-col gap-1.5 text-xs">
+                  <div className="flex gap-1">
+                      {(Object.keys(PRESETS) as (keyof typeof PRESETS)[]).map(name => (
+                          <button
+                              key={name}
+                              onClick={() => choosePreset(name)}
+                              className={clsx("flex-1 py-1 rounded", preset === name ? "bg-purple-600" : "bg-white/10 hover:bg-white/20")}
+                          >
+                              {name}
+                          </button>
+                      ))}
+                  </div>
+
+                  {FIELDS.map(field => (
+                      <div key={field.key} className="flex items-center justify-between gap-1 text-white/70">
+                          {field.label}
+                          <input
+                              type="number"
+                              min={0}
+                              step={field.step}
+                              value={toDisplay(field)}
+                              onChange={(e) => setField(field, e.target.value)}
+                              className="w-16 bg-white/10 rounded px-1 py-0.5 text-white"
+                          />
+                      </div>
+                  ))}
+
+                  <label className="flex items-center gap-1 text-white/70" title="Otherwise the hip travels forward">
+                      <input type="checkbox" checked={params.inPlace} onChange={(e) => setParams({ ...params, inPlace: e.target.checked })}/>
+                      In Place
+                  </label>
+
+                  <button
+                      onClick={() => { generateGait(params, preset); setOpen(false); }}
+                      className="py-1 rounded bg-green-600 hover:bg-green-700 font-bold"
+                  >
+                      Generate {preset}
+                  </button>
+              </div>
+          )}
+      </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { Layers, ChevronUp } from 'lucide-react';
+import clsx from 'clsx';
+import { useState } from 'react';
+
+const NumberField = ({ label, value, min, max, step, onChange }: { label: string, value: number, min: number, max: number, step: number, onChange: (v: number) => void }) => (
+    <label className="flex items-center justify-between gap-2 text-white/70">
+        {label}
+        <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => {
+                const v = parseFloat(e.target.value);
+                if (!isNaN(v)) onChange(Math.max(min, Math.min(max, v)));
+            }}
+            className="w-16 bg-white/10 rounded px-1 py-0.5 text-white"
+        />
+    </label>
+);
+
+// Animate Mode: onion skin toggle with a popover for its settings
+export const OnionSkinSettings = () => {
+  const { onionSkin, setOnionSkin } = useStickmanStore();
+  const [open, setOpen] = useState(false);
+
+  return (
+      <div className="relative flex">
+          <button
+              onClick={() => setOnionSkin({ enabled: !onionSkin.enabled })}
+              className={clsx("px-2 py-1 rounded-l text-xs flex items-center gap-1", onionSkin.enabled ? "bg-purple-600" : "bg-white/10 hover:bg-white/20")}
+              title="Onion skin: ghost the poses around the playhead"
+          >
+              <Layers size={12}/> Onion
+          </button>
+          <button
+              onClick={() => setOpen(!open)}
+              className="px-1 py-1 rounded-r text-xs bg-white/10 hover:bg-white/20 border-l border-white/10"
+              title="Onion skin settings"
+          >
+              <ChevronUp size={12}/>
+          </button>
+
+          {open && (
+              <div className="absolute bottom-full right-0 mb-2 w-48 bg-black/90 rounded-lg shadow-xl border border-white/10 p-2 z-20 flex flex-col gap-1.5 text-xs">
+                  <div className="flex gap-1">
+                      {(['keyframes', 'frames'] as const).map(mode => (
+                          <button
+                              key={mode}
+                              onClick={() => setOnionSkin({ mode })}
+                              className={clsx("flex-1 py-1 rounded", onionSkin.mode === mode ? "bg-purple-600" : "bg-white/10 hover:bg-white/20")}
+                          >
+                              {mode === 'keyframes' ? 'Keys' : 'Frames'}
+                          </button>
+                      ))}
+                  </div>
+                  <NumberField label="Count" value={onionSkin.count} min={1} max={10} step={1} onChange={(count) => setOnionSkin({ count })} />
+                  {onionSkin.mode === 'frames' && (
+                      <NumberField label="Step (s)" value={onionSkin.step} min={0.01} max={2} step={0.05} onChange={(step) => setOnionSkin({ step })} />
+                  )}
+                  <NumberField label="Opacity" value={onionSkin.opacity} min={0.05} max={1} step={0.05} onChange={(opacity) => setOnionSkin({ opacity })} />
+                  <NumberField label="Falloff" value={onionSkin.falloff} min={0.1} max={1} step={0.1} onChange={(falloff) => setOnionSkin({ falloff })} />
+                  <div className="flex items-center justify-between text-white/70">
+                      Colors
+                      <div className="flex gap-1">
+                          <input
+                              type="color"
+                              value={onionSkin.beforeColor}
+                              onChange={(e) => setOnionSkin({ beforeColor: e.target.value })}
+                              className="w-6 h-6 bg-transparent rounded cursor-pointer"
+                              title="Before the playhead"
+                          />
+                          <input
+                              type="color"
+                              value={onionSkin.afterColor}
+                              onChange={(e) => setOnionSkin({ afterColor: e.target.value })}
+                              className="w-6 h-6 bg-transparent rounded cursor-pointer"
+                              title="After the playhead"
+                          />
+                      </div>
+                  </div>
+              </div>
+          )}
+      </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { BookMarked, Plus, Trash2, Download, Upload } from 'lucide-react';
+import { useState } from 'react';
+import { getSubtreeChannels } from '../core/StickmanChannels';
+import { POSE_THUMBNAIL_SIZE } from '../core/StickmanPoseLibrary';
+import { saveTextFile, openTextFile } from './files';
+
+type PoseScope = 'body' | 'subtree' | 'joint';
+
+// Pose and Animate Mode: save named poses and apply them to the current pose or as a keyframe
+export const PoseLibrary = () => {
+  const {
+      poses, currentSkeleton, selectedNodeId, modeType,
+      savePose, applyPose, renamePose, deletePose, importPoses, exportPoses
+  } = useStickmanStore();
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<PoseScope>('body');
+  const [blend, setBlend] = useState(100);
+
+  const selected = selectedNodeId ? currentSkeleton.root.findNode(selectedNodeId) : null;
+
+  const handleSave = () => {
+      const jointIds = !selected || scope === 'body' ? undefined
+          : scope === 'subtree' ? getSubtreeChannels(selected) : [selected.id];
+      savePose(name.trim(), jointIds);
+      setName('');
+  };
+
+  const handleExport = () => saveTextFile(
+      exportPoses(),
+      `stickman_poses_${Date.now()}.json`,
+      { title: 'Stickman Poses', text: 'Here is my stickman pose library.', extension: 'json' }
+  );
+
+  return (
+      <div className="flex flex-col gap-2 mb-2 border-b border-white/10 pb-2 text-xs">
+          <div className="flex flex-wrap items-center gap-2">
+              <BookMarked size={14} className="text-cyan-400"/>
+              <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                  placeholder="Pose name"
+                  className="w-28 bg-white/10 rounded px-2 py-1 text-white"
+              />
+              <select
+                  value={selected ? scope : 'body'}
+                  onChange={(e) => setScope(e.target.value as PoseScope)}
+                  className="bg-white/10 rounded px-1 py-1 text-white"
+                  title="Joints stored in the pose"
+              >
+                  <option value="body" className="bg-black">Whole body</option>
+                  <option value="subtree" disabled={!selected} className="bg-black">{selected ? `${selected.name} and below` : 'Joint and below'}</option>
+                  <option value="joint" disabled={!selected} className="bg-black">{selected ? `${selected.name} only` : 'Joint only'}</option>
+              </select>
+              <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 px-2 py-1 rounded font-bold flex items-center gap-1">
+                  <Plus size={12}/> Save Pose
+              </button>
+
+              <label className="flex items-center gap-1 text-white/70" title="How far applying moves the current pose towards the saved one">
+                  Blend
+                  <input type="range" min={0} max={100} step={5} value={blend} onChange={(e) => setBlend(parseFloat(e.target.value))} className="w-20"/>
+                  <span className="w-8">{blend}%</span>
+              </label>
+
+              <div className="flex gap-1 ml-auto">
+                  <button onClick={() => openTextFile(importPoses)} className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded flex items-center gap-1" title="Add the poses of a library file">
+                      <Upload size={12}/> Import
+                  </button>
+                  <button onClick={handleExport} disabled={poses.length === 0} className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded flex items-center gap-1 disabled:opacity-30" title="Save the library to its own file">
+                      <Download size={12}/> Export
+                  </button>
+              </div>
+          </div>
+
+          {poses.length === 0 ? (
+              <div className="text-white/50">No poses yet. Save the current pose to reuse it in any clip.</div>
+          ) : (
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                  {poses.map(pose => (
+                      <div key={pose.id} className="flex flex-col items-center gap-1 bg-white/5 rounded p-1 w-24 shrink-0">
+                          <button
+                              onClick={() => applyPose(pose.id, blend / 100)}
+                              className="bg-black/40 hover:bg-black/60 rounded"
+                              title={`Apply to the current pose (${pose.joints.length} joints)`}
+                          >
+                              <svg width={POSE_THUMBNAIL_SIZE} height={POSE_THUMBNAIL_SIZE} viewBox={`0 0 ${POSE_THUMBNAIL_SIZE} ${POSE_THUMBNAIL_SIZE}`}>
+                                  <path d={pose.thumbnail} stroke="white" strokeWidth={2} strokeLinecap="round" fill="none"/>
+                              </svg>
+                          </button>
+                          <input
+                              key={pose.name}
+                              defaultValue={pose.name}
+                              onBlur={(e) => {
+                                  const value = e.target.value.trim();
+                                  if (value && value !== pose.name) renamePose(pose.id, value);
+                              }}
+                              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                              className="w-full bg-transparent text-center text-white"
+                              title="Rename pose"
+                          />
+                          <div className="flex gap-1">
+                              {modeType === 'animate' && (
+                                  <button
+                                      onClick={() => applyPose(pose.id, blend / 100, true)}
+                                      className="bg-white/10 hover:bg-white/20 px-1.5 py-0.5 rounded"
+                                      title="Apply and key the pose's joints at the playhead"
+                                  >
+                                      Key
+                                  </button>
+                              )}
+                              <button onClick={() => deletePose(pose.id)} className="bg-white/10 hover:bg-red-600 px-1.5 py-0.5 rounded" title="Delete pose">
+                                  <Trash2 size={12}/>
+                              </button>
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          )}
+      </div>
+  );
+};
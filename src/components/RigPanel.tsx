@@ -0,0 +1,138 @@
+import { useStickmanStore } from '../store/useStickmanStore';
+import { Plus, Trash2, Bone } from 'lucide-react';
+import clsx from 'clsx';
+import { StickmanJointConstraint, createDefaultConstraint } from '../core/StickmanConstraints';
+
+const DEG = 180 / Math.PI;
+const AXES: Record<'X' | 'Y' | 'Z', [number, number, number]> = { X: [1, 0, 0], Y: [0, 1, 0], Z: [0, 0, 1] };
+
+// Degree input for constraint angles (stored in radians)
+const AngleInput = ({ label, value, onChange }: { label: string, value: number, onChange: (radians: number) => void }) => (
+    <label className="flex items-center gap-1 text-white/70">
+        {label}
+        <input
+            type="number"
+            step={5}
+            value={Math.round(value * DEG)}
+            onChange={(e) => onChange((parseFloat(e.target.value) || 0) / DEG)}
+            className="w-14 bg-white/10 rounded px-1 py-1 text-white"
+        />
+    </label>
+);
+
+// Rig Mode: edit the joint tree of the skeleton (applies to every keyframe of every clip)
+export const RigPanel = () => {
+  const {
+      currentSkeleton, selectedNodeId,
+      addJoint, removeJoint, reparentJoint, renameJoint, setJointConstraint
+  } = useStickmanStore();
+
+  const selected = selectedNodeId ? currentSkeleton.root.findNode(selectedNodeId) : null;
+
+  if (!selected) {
+      return (
+          <div className="flex items-center gap-2 text-xs text-white/60 mb-2 border-b border-white/10 pb-2">
+              <Bone size={14} className="text-amber-400"/> Select a joint to edit the rig
+          </div>
+      );
+  }
+
+  const isRoot = selected.id === currentSkeleton.root.id;
+  const parent = currentSkeleton.getParent(selected.id);
+  // A joint cannot be moved under itself or its own subtree
+  const parentOptions = currentSkeleton.nodes.filter(n => !selected.findNode(n.id));
+  const constraint = currentSkeleton.rig.constraints[selected.id];
+  const updateConstraint = (changes: Partial<StickmanJointConstraint>) =>
+      constraint && setJointConstraint(selected.id, { ...constraint, ...changes });
+  const axisLabel = constraint?.axis
+      ? (Object.keys(AXES) as ('X' | 'Y' | 'Z')[]).find(k => AXES[k].every((v, i) => v === constraint.axis![i]))
+      : 'X';
+
+  return (
+      <div className="flex flex-wrap items-center gap-2 mb-2 border-b border-white/10 pb-2 text-xs">
+          <Bone size={14} className="text-amber-400"/>
+          <input
+              key={selected.id}
+              defaultValue={selected.name}
+              onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== selected.name) renameJoint(selected.id, name);
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className="w-28 bg-white/10 rounded px-2 py-1 text-white"
+              title="Rename joint"
+          />
+
+          {!isRoot && (
+              <label className="flex items-center gap-1 text-white/70">
+                  Parent
+                  <select
+                      value={parent?.id}
+                      onChange={(e) => reparentJoint(selected.id, e.target.value)}
+                      className="bg-white/10 rounded px-1 py-1 text-white"
+                  >
+                      {parentOptions.map(n => (
+                          <option key={n.id} value={n.id} className="bg-black">{n.name}</option>
+                      ))}
+                  </select>
+              </label>
+          )}
+
+          <button
+              onClick={() => addJoint(selected.id)}
+              className="bg-green-600 hover:bg-green-700 px-3 py-1 rounded font-bold flex items-center gap-1"
+          >
+              <Plus size={12}/> Child
+          </button>
+
+          {!isRoot && (
+              <button
+                  onClick={() => removeJoint(selected.id)}
+                  className="bg-red-600 hover:bg-red-700 px-3 py-1 rounded font-bold flex items-center gap-1"
+                  title="Delete this joint and its subtree"
+              >
+                  <Trash2 size={12}/> Delete
+              </button>
+          )}
+
+          {/* Joint Limits (applied to the bones leaving this joint) */}
+          <label className="flex items-center gap-1 text-white/70">
+              Limit
+              <select
+                  value={constraint?.type || 'none'}
+                  onChange={(e) => {
+                      const type = e.target.value;
+                      setJointConstraint(selected.id, type === 'hinge' || type === 'cone'
+                          ? createDefaultConstraint(type, selected.name)
+                          : null);
+                  }}
+                  className="bg-white/10 rounded px-1 py-1 text-white"
+              >
+                  <option value="none" className="bg-black">None</option>
+                  <option value="hinge" className="bg-black">Hinge</option>
+                  <option value="cone" className="bg-black">Cone</option>
+              </select>
+          </label>
+          {constraint?.type === 'hinge' && (
+              <>
+                  <div className="flex gap-1">
+                      {(Object.keys(AXES) as ('X' | 'Y' | 'Z')[]).map(label => (
+                          <button
+                              key={label}
+                              onClick={() => updateConstraint({ axis: AXES[label] })}
+                              className={clsx("px-2 py-1 rounded", label === axisLabel ? "bg-amber-600" : "bg-white/10 hover:bg-white/20")}
+                          >
+                              {label}
+                          </button>
+                      ))}
+                  </div>
+                  <AngleInput label="Min" value={constraint.minAngle ?? -Math.PI} onChange={(minAngle) => updateConstraint({ minAngle })} />
+                  <AngleInput label="Max" value={constraint.maxAngle ?? Math.PI} onChange={(maxAngle) => updateConstraint({ maxAngle })} />
+              </>
+          )}
+          {constraint?.type === 'cone' && (
+              <AngleInput label="Angle" value={constraint.coneAngle ?? Math.PI} onChange={(coneAngle) => updateConstraint({ coneAngle })} />
+          )}
+      </div>
+  );
+};
@@ -1,56 +1,100 @@
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, TransformControls, Sphere } from '@react-three/drei';
+import { OrbitControls, TransformControls, Sphere, Box, Line } from '@react-three/drei';
 import { useStickmanStore } from '../store/useStickmanStore';
 import { StickmanNode } from '../core/StickmanNode';
+import { StickmanJointConstraint } from '../core/StickmanConstraints';
+import { getOnionGhosts } from '../core/StickmanOnionSkin';
+import { getMotionPath } from '../core/StickmanMotionPath';
 import { Object3D, Vector3, Quaternion } from 'three';
-import { useRef, useMemo, useEffect } from 'react';
+import { useRef, useMemo, useEffect, useState } from 'react';
 
 // --- Joint & Bone Components (Same as before but with Axis awareness) ---
 
-const JointNode = ({ node, isSelected, onClick, radius }: { node: StickmanNode, isSelected: boolean, onClick: () => void, radius: number }) => {
+// Restrict gizmo axes based on view mode (2D perspective logic)
+// Front (Z-view): Lock Z (depth), allow X, Y.
+// Side (X-view): Lock X (depth), allow Y, Z.
+// Top (Y-view): Lock Y (depth), allow X, Z.
+const useAllowedAxes = () => {
+  const axisMode = useStickmanStore((state) => state.axisMode);
+  const cameraView = useStickmanStore((state) => state.cameraView);
+  return {
+    showX: (axisMode === 'none' || axisMode === 'x') && cameraView !== 'side',
+    showY: (axisMode === 'none' || axisMode === 'y') && cameraView !== 'top',
+    showZ: (axisMode === 'none' || axisMode === 'z') && cameraView !== 'front',
+  };
+};
+
+interface JointNodeProps {
+    node: StickmanNode;
+    isSelected: boolean;
+    // Ghosts have no click handler so clicks go through to the live skeleton
+    onClick?: () => void;
+    radius: number;
+    color: string;
+    square: boolean;
+    opacity: number;
+}
+
+const JointNode = ({ node, isSelected, onClick, radius, color, square, opacity }: JointNodeProps) => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const meshRef = useRef<any>(null);
-  const { updateNodePosition, axisMode, cameraView } = useStickmanStore();
+  const { updateNodePosition, rotateNode, beginHistory, commitHistory, transformMode } = useStickmanStore();
+  const allowedAxes = useAllowedAxes();
 
   useFrame(() => {
     if (meshRef.current) {
         meshRef.current.position.copy(node.position);
+        if (isSelected) {
+            // Keep the gizmo aligned with the joint's frame for rotate mode
+            meshRef.current.quaternion.copy(useStickmanStore.getState().currentSkeleton.getWorldRotation(node.id));
+        }
     }
   });
 
-  // Restrict axes based on view mode (2D perspective logic)
-  // Front (Z-view): Lock Z (depth), allow X, Y.
-  // Side (X-view): Lock X (depth), allow Y, Z.
-  // Top (Y-view): Lock Y (depth), allow X, Z.
-  const canMoveX = (axisMode === 'none' || axisMode === 'x') && cameraView !== 'side';
-  const canMoveY = (axisMode === 'none' || axisMode === 'y') && cameraView !== 'top';
-  const canMoveZ = (axisMode === 'none' || axisMode === 'z') && cameraView !== 'front';
-
   return (
     <>
-        <Sphere
-            ref={meshRef}
-            position={node.position}
-            args={[radius, 32, 32]}
-            onClick={(e) => {
-                e.stopPropagation();
-                onClick();
-            }}
-        >
-          <meshStandardMaterial color={isSelected ? "#ffff00" : "white"} />
-        </Sphere>
+        {square ? (
+            <Box
+                ref={meshRef}
+                position={node.position}
+                args={[radius * 2, radius * 2, radius * 2]}
+                onClick={onClick && ((e) => {
+                    e.stopPropagation();
+                    onClick();
+                })}
+            >
+              <meshStandardMaterial color={isSelected ? "#ffff00" : color} transparent={opacity < 1} opacity={opacity} depthWrite={opacity >= 1} />
+            </Box>
+        ) : (
+            <Sphere
+                ref={meshRef}
+                position={node.position}
+                args={[radius, 32, 32]}
+                onClick={onClick && ((e) => {
+                    e.stopPropagation();
+                    onClick();
+                })}
+            >
+              <meshStandardMaterial color={isSelected ? "#ffff00" : color} transparent={opacity < 1} opacity={opacity} depthWrite={opacity >= 1} />
+            </Sphere>
+        )}
         {isSelected && (
              <TransformControls
                 object={meshRef}
-                mode="translate"
-                showX={canMoveX}
-                showY={canMoveY}
-                showZ={canMoveZ}
+                mode={transformMode}
+                {...allowedAxes}
+                // The whole drag is one undo step
+                onMouseDown={beginHistory}
+                onMouseUp={commitHistory}
                 onObjectChange={(e) => {
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                     const object = (e?.target as any)?.object as Object3D | undefined;
                     if (object) {
-                        updateNodePosition(node.id, object.position.clone());
+                        if (transformMode === 'rotate') {
+                            rotateNode(node.id, object.quaternion.clone());
+                        } else {
+                            updateNodePosition(node.id, object.position.clone());
+                        }
                     }
                 }}
              />
@@ -59,7 +103,7 @@ const JointNode = ({ node, isSelected, onClick, radius }: { node: StickmanNode,
   );
 };
 
-const BoneSegment = ({ startNode, endNode, thickness }: { startNode: StickmanNode, endNode: StickmanNode, thickness: number }) => {
+const BoneSegment = ({ startNode, endNode, thickness, color, opacity }: { startNode: StickmanNode, endNode: StickmanNode, thickness: number, color: string, opacity: number }) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const meshRef = useRef<any>(null);
     const axis = useMemo(() => new Vector3(0, 1, 0), []);
@@ -86,35 +130,230 @@ const BoneSegment = ({ startNode, endNode, thickness }: { startNode: StickmanNod
     return (
         <mesh ref={meshRef}>
             <cylinderGeometry args={[thickness, thickness, 1, 16]} />
-            <meshStandardMaterial color="white" />
+            <meshStandardMaterial color={color} transparent={opacity < 1} opacity={opacity} depthWrite={opacity >= 1} />
         </mesh>
     );
 };
 
-const StickmanRecursive = ({ node, headRadius, strokeWidth }: { node: StickmanNode, headRadius: number, strokeWidth: number }) => {
+interface StickmanRecursiveProps {
+    node: StickmanNode;
+    headRadius: number;
+    strokeWidth: number;
+    // Actor the skeleton belongs to; selection only applies to the active actor
+    actorId: string;
+    // Draw a non-interactive, tinted copy (onion skin) instead of the live skeleton
+    ghost?: { color: string, opacity: number };
+}
+
+// Hidden joints stay faintly visible in the editor so they can still be selected
+const HIDDEN_OPACITY = 0.25;
+
+const StickmanRecursive = ({ node, headRadius, strokeWidth, actorId, ghost }: StickmanRecursiveProps) => {
     const selectedNodeId = useStickmanStore((state) => state.selectedNodeId);
+    const activeActorId = useStickmanStore((state) => state.activeActorId);
     const selectNode = useStickmanStore((state) => state.selectNode);
-    const isSelected = selectedNodeId === node.id;
-    const radius = node.name === 'head' ? headRadius : strokeWidth;
+    const isSelected = !ghost && actorId === activeActorId && selectedNodeId === node.id;
+    const headShape = node.headShape;
+    const radius = headShape ? headRadius : (node.style?.strokeWidth ?? strokeWidth);
+    const opacityOf = (n: StickmanNode) => (ghost ? ghost.opacity : 1) * (n.style?.hidden ? HIDDEN_OPACITY : 1);
+    const colorOf = (n: StickmanNode) => ghost ? ghost.color : (n.style?.color || 'white');
 
     return (
         <>
             <JointNode
                 node={node}
                 isSelected={isSelected}
-                onClick={() => selectNode(node.id)}
+                onClick={ghost ? undefined : () => selectNode(node.id, actorId)}
                 radius={radius}
+                color={colorOf(node)}
+                square={headShape === 'square'}
+                opacity={opacityOf(node)}
             />
             {node.children.map((child) => (
                 <group key={child.id}>
-                    <BoneSegment startNode={node} endNode={child} thickness={strokeWidth} />
-                    <StickmanRecursive node={child} headRadius={headRadius} strokeWidth={strokeWidth} />
+                    <BoneSegment
+                        startNode={node}
+                        endNode={child}
+                        thickness={child.style?.strokeWidth ?? strokeWidth}
+                        color={colorOf(child)}
+                        opacity={opacityOf(child)}
+                    />
+                    <StickmanRecursive node={child} headRadius={headRadius} strokeWidth={strokeWidth} actorId={actorId} ghost={ghost} />
                 </group>
             ))}
         </>
     );
 };
 
+// --- Onion Skin ---
+// Ghosts of the active clip around the playhead (animate mode, paused), drawn with StickmanRecursive
+const OnionSkin = ({ actorId }: { actorId: string }) => {
+    const { onionSkin, modeType, isPlaying, clips, activeClipId, currentTime } = useStickmanStore();
+    const clip = clips.find(c => c.id === activeClipId);
+    const visible = onionSkin.enabled && modeType === 'animate' && !isPlaying && !!clip;
+
+    const ghosts = useMemo(
+        () => visible && clip ? getOnionGhosts(clip, currentTime, onionSkin) : [],
+        [visible, clip, currentTime, onionSkin]
+    );
+
+    return (
+        <>
+            {ghosts.map(g => (
+                <StickmanRecursive
+                    key={g.offset}
+                    node={g.skeleton.root}
+                    headRadius={g.skeleton.headRadius}
+                    strokeWidth={g.skeleton.strokeWidth}
+                    actorId={actorId}
+                    ghost={{ color: g.color, opacity: g.opacity }}
+                />
+            ))}
+        </>
+    );
+};
+
+// --- Motion Path ---
+// Trajectory of the selected joint across the active clip (animate mode). Clicking a keyframe
+// marker attaches a gizmo to it; dragging poses that keyframe like dragging the joint itself.
+const MARKER_RADIUS = 0.04;
+
+const MotionPathMarker = ({ keyframeId, nodeId, position, isActive, onSelect }: {
+    keyframeId: string, nodeId: string, position: Vector3, isActive: boolean, onSelect: () => void
+}) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const meshRef = useRef<any>(null);
+    const { updateKeyframeNodePosition, beginHistory, commitHistory } = useStickmanStore();
+    const allowedAxes = useAllowedAxes();
+
+    return (
+        <>
+            <Sphere
+                ref={meshRef}
+                position={position}
+                args={[MARKER_RADIUS, 12, 12]}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onSelect();
+                }}
+            >
+                <meshBasicMaterial color={isActive ? "#f97316" : "#facc15"} depthTest={false} transparent />
+            </Sphere>
+            {isActive && (
+                <TransformControls
+                    object={meshRef}
+                    mode="translate"
+                    size={0.6}
+                    {...allowedAxes}
+                    onMouseDown={beginHistory}
+                    onMouseUp={commitHistory}
+                    onObjectChange={(e) => {
+                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                        const object = (e?.target as any)?.object as Object3D | undefined;
+                        if (object) updateKeyframeNodePosition(keyframeId, nodeId, object.position.clone());
+                    }}
+                />
+            )}
+        </>
+    );
+};
+
+const MotionPath = () => {
+    const { selectedNodeId, modeType, isPlaying, clips, activeClipId } = useStickmanStore();
+    const [activeMarkerId, setActiveMarkerId] = useState<string | null>(null);
+    const clip = clips.find(c => c.id === activeClipId);
+    const visible = modeType === 'animate' && !isPlaying && !!selectedNodeId && !!clip;
+
+    const path = useMemo(
+        () => visible && clip && selectedNodeId ? getMotionPath(clip, selectedNodeId) : null,
+        [visible, clip, selectedNodeId]
+    );
+
+    if (!path || path.points.length < 2 || !selectedNodeId) return null;
+
+    return (
+        <group>
+            <Line points={path.points} color="#38bdf8" lineWidth={1.5} transparent opacity={0.8} depthTest={false} />
+            {path.keys.map(key => (
+                <MotionPathMarker
+                    key={key.keyframeId}
+                    keyframeId={key.keyframeId}
+                    nodeId={selectedNodeId}
+                    position={key.position}
+                    isActive={activeMarkerId === key.keyframeId}
+                    onSelect={() => setActiveMarkerId(activeMarkerId === key.keyframeId ? null : key.keyframeId)}
+                />
+            ))}
+        </group>
+    );
+};
+
+// --- Joint Limit Gizmo ---
+// Draws the allowed range of the selected joint's constraint in the joint's frame:
+// an arc for hinges, a ring with spokes for cones.
+const GIZMO_RADIUS = 0.35;
+const GIZMO_SEGMENTS = 32;
+
+const buildConstraintLines = (constraint: StickmanJointConstraint): [number, number, number][][] => {
+    const straight = new Vector3(0, 1, 0);
+    const toTuple = (v: Vector3): [number, number, number] => [v.x, v.y, v.z];
+
+    if (constraint.type === 'hinge') {
+        const axis = new Vector3().fromArray(constraint.axis || [1, 0, 0]).normalize();
+        const reference = straight.clone().projectOnPlane(axis);
+        if (reference.length() < 1e-6) return [];
+        reference.normalize();
+        const min = constraint.minAngle ?? -Math.PI;
+        const max = constraint.maxAngle ?? Math.PI;
+        const arc: [number, number, number][] = [[0, 0, 0]];
+        for (let i = 0; i <= GIZMO_SEGMENTS; i++) {
+            const angle = min + (max - min) * (i / GIZMO_SEGMENTS);
+            arc.push(toTuple(reference.clone().applyAxisAngle(axis, angle).multiplyScalar(GIZMO_RADIUS)));
+        }
+        arc.push([0, 0, 0]);
+        return [arc, [toTuple(axis.clone().multiplyScalar(-GIZMO_RADIUS * 0.5)), toTuple(axis.clone().multiplyScalar(GIZMO_RADIUS * 0.5))]];
+    }
+
+    const limit = constraint.coneAngle ?? Math.PI;
+    const rim = straight.clone().applyAxisAngle(new Vector3(1, 0, 0), limit).multiplyScalar(GIZMO_RADIUS);
+    const ring: [number, number, number][] = [];
+    for (let i = 0; i <= GIZMO_SEGMENTS; i++) {
+        ring.push(toTuple(rim.clone().applyAxisAngle(straight, (i / GIZMO_SEGMENTS) * Math.PI * 2)));
+    }
+    const spokes = [0, 1, 2, 3].map(i =>
+        [[0, 0, 0], toTuple(rim.clone().applyAxisAngle(straight, (i / 4) * Math.PI * 2))] as [number, number, number][]
+    );
+    return [ring, ...spokes];
+};
+
+const ConstraintGizmo = () => {
+    const currentSkeleton = useStickmanStore((state) => state.currentSkeleton);
+    const selectedNodeId = useStickmanStore((state) => state.selectedNodeId);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const groupRef = useRef<any>(null);
+
+    const constraint = selectedNodeId ? currentSkeleton.rig.constraints[selectedNodeId] : undefined;
+    const lines = useMemo(() => constraint ? buildConstraintLines(constraint) : [], [constraint]);
+
+    useFrame(() => {
+        const node = selectedNodeId ? currentSkeleton.root.findNode(selectedNodeId) : null;
+        if (groupRef.current && node) {
+            groupRef.current.position.copy(node.position);
+            groupRef.current.quaternion.copy(currentSkeleton.getWorldRotation(node.id));
+        }
+    });
+
+    if (!constraint) return null;
+
+    return (
+        <group ref={groupRef}>
+            {lines.map((points, i) => (
+                <Line key={i} points={points} color="#f59e0b" lineWidth={2} transparent opacity={0.8} depthTest={false} />
+            ))}
+        </group>
+    );
+};
+
 // --- Camera Controller ---
 const CameraController = () => {
     const { camera } = useThree();
@@ -203,40 +442,22 @@ const SkinPlaceholder = () => {
 
 const SceneContent = () => {
     const currentSkeleton = useStickmanStore((state) => state.currentSkeleton);
-    const { isPlaying, clips, activeClipId, currentTime, setCurrentTime } = useStickmanStore();
+    const { actors, activeActorId, isPlaying, togglePlay, clips, activeClipId, currentTime, setCurrentTime } = useStickmanStore();
 
-    // Playback Logic
+    // Playback Logic (setCurrentTime poses every actor at the new time). Clips that don't loop stop on their end.
     const currentClip = clips.find(c => c.id === activeClipId);
     useFrame((_state, delta) => {
         if (isPlaying && currentClip) {
             let newTime = currentTime + delta;
-            if (newTime > currentClip.duration) newTime = 0;
-            setCurrentTime(newTime);
-
-            if (currentClip.keyframes.length >= 2) {
-                // Interpolation logic...
-                 let prevKeyframe = currentClip.keyframes[0];
-                let nextKeyframe = currentClip.keyframes[currentClip.keyframes.length - 1];
-
-                for (let i = 0; i < currentClip.keyframes.length - 1; i++) {
-                    if (currentClip.keyframes[i].timestamp <= newTime && currentClip.keyframes[i+1].timestamp >= newTime) {
-                        prevKeyframe = currentClip.keyframes[i];
-                        nextKeyframe = currentClip.keyframes[i+1];
-                        break;
-                    }
-                }
-                if (prevKeyframe && nextKeyframe && prevKeyframe !== nextKeyframe) {
-                    const range = nextKeyframe.timestamp - prevKeyframe.timestamp;
-                    const alpha = range > 0 ? (newTime - prevKeyframe.timestamp) / range : 0;
-                    const interpolated = prevKeyframe.skeleton.lerp(nextKeyframe.skeleton, alpha);
-                     const targetNodes = interpolated.getAllNodes();
-                     const currentNodes = currentSkeleton.getAllNodes();
-                     for(let i=0; i<currentNodes.length; i++) {
-                         const target = targetNodes.find(n => n.id === currentNodes[i].id);
-                         if (target) currentNodes[i].position.copy(target.position);
-                     }
+            if (newTime > currentClip.duration) {
+                if (currentClip.loop === false) {
+                    setCurrentTime(currentClip.duration);
+                    togglePlay();
+                    return;
                 }
+                newTime = 0;
             }
+            setCurrentTime(newTime);
         }
     });
 
@@ -246,11 +467,23 @@ const SceneContent = () => {
             <directionalLight position={[5, 10, 5]} intensity={1.2} castShadow />
             <pointLight position={[-5, 5, -5]} intensity={0.5} />
 
-            <StickmanRecursive
-                node={currentSkeleton.root}
-                headRadius={currentSkeleton.headRadius}
-                strokeWidth={currentSkeleton.strokeWidth}
-            />
+            {actors.map(actor => {
+                const isActive = actor.id === activeActorId;
+                const skeleton = isActive ? currentSkeleton : actor.skeleton;
+                return (
+                    <group key={actor.id} position={actor.position}>
+                        <StickmanRecursive
+                            node={skeleton.root}
+                            headRadius={skeleton.headRadius}
+                            strokeWidth={skeleton.strokeWidth}
+                            actorId={actor.id}
+                        />
+                        {isActive && <OnionSkin actorId={actor.id} />}
+                        {isActive && <MotionPath />}
+                        {isActive && <ConstraintGizmo />}
+                    </group>
+                );
+            })}
 
             <SkinPlaceholder />
 
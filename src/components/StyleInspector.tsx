@@ -0,0 +1,77 @@
+import { useStickmanStore, beginHistoryGesture } from '../store/useStickmanStore';
+import { Palette } from 'lucide-react';
+import { StickmanHeadShape } from '../core/StickmanNode';
+
+// Pose Mode: look of the selected joint and the bone leading to it (shared by every keyframe)
+export const StyleInspector = () => {
+  const { currentSkeleton, selectedNodeId, setNodeStyle } = useStickmanStore();
+
+  const selected = selectedNodeId ? currentSkeleton.root.findNode(selectedNodeId) : null;
+  if (!selected) return null;
+
+  const style = selected.style || {};
+
+  return (
+      <div className="flex flex-wrap items-center gap-2 mb-2 border-b border-white/10 pb-2 text-xs">
+          <Palette size={14} className="text-cyan-400"/>
+          <span className="font-bold">{selected.name}</span>
+
+          <label className="flex items-center gap-1 text-white/70">
+              Color
+              <input
+                  type="color"
+                  value={style.color || '#ffffff'}
+                  onChange={(e) => setNodeStyle(selected.id, { color: e.target.value })}
+                  className="w-6 h-6 bg-transparent rounded cursor-pointer"
+              />
+          </label>
+
+          <label className="flex items-center gap-1 text-white/70">
+              Line
+              <input
+                  type="range"
+                  min={0.01}
+                  max={0.3}
+                  step={0.01}
+                  value={style.strokeWidth ?? currentSkeleton.strokeWidth}
+                  onPointerDown={beginHistoryGesture}
+                  onChange={(e) => setNodeStyle(selected.id, { strokeWidth: parseFloat(e.target.value) })}
+                  className="w-20 accent-cyan-500"
+              />
+          </label>
+
+          <label className="flex items-center gap-1 text-white/70">
+              Head
+              <select
+                  value={style.headShape || 'none'}
+                  onChange={(e) => setNodeStyle(selected.id, {
+                      headShape: e.target.value === 'none' ? undefined : e.target.value as StickmanHeadShape
+                  })}
+                  className="bg-white/10 rounded px-1 py-1 text-white"
+              >
+                  <option value="none" className="bg-black">{selected.name === 'head' ? 'Circle' : 'None'}</option>
+                  <option value="circle" className="bg-black">Circle</option>
+                  <option value="square" className="bg-black">Square</option>
+              </select>
+          </label>
+
+          <label className="flex items-center gap-1 text-white/70">
+              <input
+                  type="checkbox"
+                  checked={!!style.hidden}
+                  onChange={(e) => setNodeStyle(selected.id, { hidden: e.target.checked })}
+              />
+              Hidden
+          </label>
+
+          {selected.style && (
+              <button
+                  onClick={() => setNodeStyle(selected.id, { color: undefined, strokeWidth: undefined, hidden: undefined, headShape: undefined })}
+                  className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded"
+              >
+                  Reset
+              </button>
+          )}
+      </div>
+  );
+};
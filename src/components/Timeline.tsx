@@ -0,0 +1,444 @@
+import { useStickmanStore, beginHistoryGesture } from '../store/useStickmanStore';
+import { StickmanEasing, StickmanEasingType, EASING_TYPES, DEFAULT_BEZIER_HANDLES } from '../core/StickmanEasing';
+import { keyframesInRange, snapToFrame, getClipFps } from '../core/StickmanTimeline';
+import { HEAD_RADIUS_CHANNEL, STROKE_WIDTH_CHANNEL, keysChannel, isWholeKeyframe } from '../core/StickmanChannels';
+import { Play, Pause, FlipHorizontal2, Copy, Trash2, Camera, ChevronRight, ChevronDown, Flag } from 'lucide-react';
+import clsx from 'clsx';
+import { useState, useRef } from 'react';
+
+const EASING_LABELS: Record<StickmanEasingType, string> = {
+    linear: 'Linear',
+    step: 'Hold',
+    easeIn: 'Ease In',
+    easeOut: 'Ease Out',
+    easeInOut: 'Ease In-Out',
+    bezier: 'Bezier',
+};
+
+const STYLE_CHANNEL_LABELS: [string, string][] = [
+    [HEAD_RADIUS_CHANNEL, 'Head size'],
+    [STROKE_WIDTH_CHANNEL, 'Line width'],
+];
+
+// Pointer travel (px) below which a press counts as a click rather than a drag
+const DRAG_THRESHOLD = 3;
+
+// Keyframe Menu (popover above a keyframe dot): easing picker and per-keyframe actions
+const KeyframeMenu = ({ easing, onChange, onMirror }: { easing?: StickmanEasing, onChange: (easing: StickmanEasing) => void, onMirror: () => void }) => {
+    const type = easing?.type || 'linear';
+    const handles = easing?.handles || DEFAULT_BEZIER_HANDLES;
+
+    const setHandle = (index: number, value: number) => {
+        const next = [...handles] as [number, number, number, number];
+        // X handles must stay within 0..1
+        next[index] = index % 2 === 0 ? Math.max(0, Math.min(1, value)) : value;
+        onChange({ type: 'bezier', handles: next });
+    };
+
+    return (
+        <div
+            className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-36 bg-black/90 rounded-lg shadow-xl border border-white/10 p-1 z-20"
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => e.stopPropagation()}
+        >
+            {EASING_TYPES.map(t => (
+                <div key={t}
+                    className={clsx("p-1.5 text-xs rounded hover:bg-white/20 cursor-pointer", t === type && "bg-purple-600")}
+                    onClick={() => onChange(t === 'bezier' ? { type: t, handles: [...handles] as [number, number, number, number] } : { type: t })}
+                >
+                    {EASING_LABELS[t]}
+                </div>
+            ))}
+            {type === 'bezier' && (
+                <div className="grid grid-cols-2 gap-1 p-1 border-t border-white/10 mt-1">
+                    {['x1', 'y1', 'x2', 'y2'].map((label, i) => (
+                        <label key={label} className="flex items-center gap-1 text-[10px] text-white/70">
+                            {label}
+                            <input
+                                type="number"
+                                step={0.05}
+                                value={handles[i]}
+                                onChange={(e) => setHandle(i, parseFloat(e.target.value) || 0)}
+                                className="w-full bg-white/10 rounded px-1 text-white"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+            <div className="border-t border-white/10 mt-1 pt-1">
+                <button onClick={onMirror} className="w-full text-left p-1.5 text-xs rounded hover:bg-white/20 flex items-center gap-1">
+                    <FlipHorizontal2 size={12}/> Mirror Pose
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Timeline of the active clip: playback, a ruler to scrub the playhead, keyframe dots (click for
+// the menu, drag to retime, shift-click to add to the selection) and box selection on the empty track.
+// Expanded, it also shows a row per channel with the keys that key it (hollow dots on the main
+// track key only some channels). Markers sit on their own lane under the ruler; drag to retime.
+export const Timeline = () => {
+  const {
+      isPlaying, togglePlay, currentTime, setCurrentTime,
+      clips, activeClipId,
+      selectedKeyframeIds, selectKeyframes, moveKeyframes, scaleKeyframes,
+      deleteKeyframes, duplicateKeyframes, replaceKeyframePose,
+      setKeyframeEasing, mirrorPose,
+      currentSkeleton, addKeyframe,
+      selectedMarkerId, selectMarker, updateMarker, deleteMarker,
+      beginHistory, commitHistory
+  } = useStickmanStore();
+
+  const [menuKeyframeId, setMenuKeyframeId] = useState<string | null>(null);
+  // Duration the track is laid out with while dragging, so keys don't slide away when the clip resizes
+  const [dragDuration, setDragDuration] = useState<number | null>(null);
+  const [box, setBox] = useState<[number, number] | null>(null);
+  const [scalePercent, setScalePercent] = useState(100);
+  const [expanded, setExpanded] = useState(false);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const activeClip = clips.find(c => c.id === activeClipId) || clips[0];
+  const duration = Math.max(dragDuration ?? 0, activeClip.duration);
+  const selectedMarker = activeClip.markers?.find(m => m.id === selectedMarkerId);
+  const channelRows: [string, string][] = [
+      ...currentSkeleton.nodes.map(n => [n.id, n.name] as [string, string]),
+      ...STYLE_CHANNEL_LABELS,
+  ];
+
+  // Time under a pointer X position
+  const timeAt = (clientX: number, layoutDuration: number) => {
+      const rect = trackRef.current!.getBoundingClientRect();
+      return Math.max(0, ((clientX - rect.left) / rect.width) * layoutDuration);
+  };
+
+  // Follow a press on the track until release. onMove gets the horizontal travel in px.
+  const trackPointer = (
+      startX: number,
+      onMove: (dx: number, clientX: number) => void,
+      onEnd: (dragged: boolean, clientX: number) => void
+  ) => {
+      let dragged = false;
+      const move = (e: PointerEvent) => {
+          if (Math.abs(e.clientX - startX) > DRAG_THRESHOLD) dragged = true;
+          if (dragged) onMove(e.clientX - startX, e.clientX);
+      };
+      const up = (e: PointerEvent) => {
+          window.removeEventListener('pointermove', move);
+          window.removeEventListener('pointerup', up);
+          onEnd(dragged, e.clientX);
+      };
+      window.addEventListener('pointermove', move);
+      window.addEventListener('pointerup', up);
+  };
+
+  const handleKeyframePointerDown = (e: React.PointerEvent, keyframeId: string, timestamp: number) => {
+      e.stopPropagation();
+      const isSelected = selectedKeyframeIds.includes(keyframeId);
+      if (e.shiftKey) {
+          selectKeyframes(isSelected ? selectedKeyframeIds.filter(id => id !== keyframeId) : [keyframeId], !isSelected);
+          return;
+      }
+
+      // Dragging a selected key carries the whole selection along
+      const ids = isSelected ? selectedKeyframeIds : [keyframeId];
+      if (!isSelected) selectKeyframes(ids);
+
+      const layoutDuration = duration;
+      const width = trackRef.current!.getBoundingClientRect().width;
+      setDragDuration(layoutDuration);
+      beginHistoryGesture();
+
+      trackPointer(
+          e.clientX,
+          (dx) => {
+              // Move relative to the pressed key's current time so clamping at 0 doesn't drift
+              const state = useStickmanStore.getState();
+              const clip = state.clips.find(c => c.id === state.activeClipId);
+              const anchor = clip?.keyframes.find(kf => kf.id === keyframeId);
+              if (!anchor) return;
+              const target = Math.max(0, timestamp + (dx / width) * layoutDuration);
+              moveKeyframes(ids, target - anchor.timestamp);
+          },
+          (dragged) => {
+              setDragDuration(null);
+              if (!dragged) setMenuKeyframeId(menuKeyframeId === keyframeId ? null : keyframeId);
+          }
+      );
+  };
+
+  const handleMarkerPointerDown = (e: React.PointerEvent, markerId: string, time: number) => {
+      e.stopPropagation();
+      selectMarker(markerId);
+      const layoutDuration = duration;
+      const width = trackRef.current!.getBoundingClientRect().width;
+      beginHistoryGesture();
+      trackPointer(
+          e.clientX,
+          (dx) => updateMarker(markerId, { time: Math.min(layoutDuration, time + (dx / width) * layoutDuration) }),
+          () => {}
+      );
+  };
+
+  // Scrubbing: press on the ruler jumps the playhead there, dragging keeps it under the pointer.
+  // The playhead lands on the clip's frames.
+  const handleRulerPointerDown = (e: React.PointerEvent) => {
+      const layoutDuration = duration;
+      setCurrentTime(snapToFrame(activeClip, Math.min(layoutDuration, timeAt(e.clientX, layoutDuration))));
+      trackPointer(
+          e.clientX,
+          (_dx, clientX) => setCurrentTime(snapToFrame(activeClip, Math.min(layoutDuration, timeAt(clientX, layoutDuration)))),
+          () => {}
+      );
+  };
+
+  const handleTrackPointerDown = (e: React.PointerEvent) => {
+      const layoutDuration = duration;
+      const startTime = timeAt(e.clientX, layoutDuration);
+      const additive = e.shiftKey;
+      setMenuKeyframeId(null);
+
+      trackPointer(
+          e.clientX,
+          (_dx, clientX) => setBox([startTime, timeAt(clientX, layoutDuration)]),
+          (dragged, clientX) => {
+              setBox(null);
+              const ids = dragged ? keyframesInRange(activeClip, startTime, timeAt(clientX, layoutDuration)) : [];
+              selectKeyframes(ids, additive);
+              // A plain click on the empty track also moves the playhead there
+              if (!dragged) setCurrentTime(snapToFrame(activeClip, Math.min(layoutDuration, startTime)));
+          }
+      );
+  };
+
+  return (
+      <>
+          <div className="flex items-center gap-3">
+              <button onClick={togglePlay} className="hover:text-purple-400">
+                  {isPlaying ? <Pause size={24} /> : <Play size={24} />}
+              </button>
+
+              <div className="flex-1 flex flex-col gap-0.5">
+              {/* Ruler (scrub) */}
+              <div
+                  className="h-3 relative bg-white/5 rounded cursor-ew-resize touch-none"
+                  onPointerDown={handleRulerPointerDown}
+              >
+                   <div
+                       className="absolute top-0 -translate-x-1/2 w-2.5 h-3 bg-red-500 rounded-sm pointer-events-none"
+                       style={{ left: `${(currentTime / duration) * 100}%` }}
+                   />
+              </div>
+
+              {/* Markers */}
+              {(activeClip.markers || []).length > 0 && (
+                  <div className="h-3 relative">
+                      {activeClip.markers!.map(marker => (
+                          <div
+                              key={marker.id}
+                              className={clsx(
+                                  "absolute top-0 h-3 flex items-center gap-0.5 cursor-ew-resize touch-none text-[9px] leading-3 whitespace-nowrap",
+                                  marker.id === selectedMarkerId ? "text-white" : "text-amber-400"
+                              )}
+                              style={{ left: `${(marker.time / duration) * 100}%` }}
+                              title={`${marker.name} · ${marker.time.toFixed(2)}s`}
+                              onPointerDown={(e) => handleMarkerPointerDown(e, marker.id, marker.time)}
+                          >
+                              <div className="w-0.5 h-3 bg-current"/>
+                              {marker.name}
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              <div
+                  ref={trackRef}
+                  className="flex flex-col justify-center h-8 relative bg-black/30 rounded px-2 touch-none"
+                  onPointerDown={handleTrackPointerDown}
+              >
+                   {/* Progress Bar */}
+                   <div className="absolute top-0 bottom-0 left-0 bg-white/5 w-full pointer-events-none"/>
+                   <div
+                      className="absolute top-0 bottom-0 left-0 bg-purple-600/30 transition-all duration-75 pointer-events-none"
+                      style={{ width: `${(currentTime / duration) * 100}%` }}
+                   />
+
+                   {/* Box Selection */}
+                   {box && (
+                       <div
+                          className="absolute top-0 bottom-0 bg-white/20 border border-white/40 pointer-events-none"
+                          style={{
+                              left: `${(Math.min(...box) / duration) * 100}%`,
+                              width: `${(Math.abs(box[1] - box[0]) / duration) * 100}%`
+                          }}
+                       />
+                   )}
+
+                   {/* Keyframes Dots */}
+                   {activeClip.keyframes.map(kf => (
+                       <div
+                          key={kf.id}
+                          className={clsx(
+                              "absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-2.5 rounded-full border-2 shadow-sm cursor-pointer z-20",
+                              kf.easing?.type === 'step' ? "border-orange-400 rounded-none" : "border-yellow-400",
+                              isWholeKeyframe(kf) && (kf.easing?.type === 'step' ? "bg-orange-400" : "bg-yellow-400"),
+                              selectedKeyframeIds.includes(kf.id) && "ring-2 ring-white"
+                          )}
+                          style={{ left: `${(kf.timestamp / duration) * 100}%` }}
+                          title={`${kf.timestamp.toFixed(2)}s · ${EASING_LABELS[kf.easing?.type || 'linear']}${isWholeKeyframe(kf) ? '' : ` · ${kf.channels!.length} channels`}`}
+                          onPointerDown={(e) => handleKeyframePointerDown(e, kf.id, kf.timestamp)}
+                       >
+                          {menuKeyframeId === kf.id && (
+                              <KeyframeMenu
+                                  easing={kf.easing}
+                                  onChange={(easing) => setKeyframeEasing(kf.id, easing)}
+                                  onMirror={() => mirrorPose(kf.id)}
+                              />
+                          )}
+                       </div>
+                   ))}
+
+                   {/* Playhead */}
+                   <div
+                       className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 transition-all duration-75 pointer-events-none"
+                       style={{ left: `${(currentTime / duration) * 100}%` }}
+                   />
+              </div>
+
+              {/* Channel Rows (dragging a dot retimes the whole keyframe) */}
+              {expanded && channelRows.map(([channel, label]) => (
+                  <div key={channel} className="h-4 relative bg-black/20 rounded">
+                      <button
+                          onClick={() => addKeyframe([channel])}
+                          className="absolute left-1 top-0 z-10 text-[9px] leading-4 text-white/50 hover:text-white"
+                          title={`Key ${label} at the playhead`}
+                      >
+                          + {label}
+                      </button>
+                      {activeClip.keyframes.filter(kf => keysChannel(kf, channel)).map(kf => (
+                          <div
+                              key={kf.id}
+                              className={clsx(
+                                  "absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2 h-2 rounded-full cursor-pointer z-20",
+                                  kf.easing?.type === 'step' ? "bg-orange-400 rounded-none" : "bg-yellow-400",
+                                  selectedKeyframeIds.includes(kf.id) && "ring-2 ring-white"
+                              )}
+                              style={{ left: `${(kf.timestamp / duration) * 100}%` }}
+                              onPointerDown={(e) => handleKeyframePointerDown(e, kf.id, kf.timestamp)}
+                          />
+                      ))}
+                      <div
+                          className="absolute top-0 bottom-0 w-px bg-red-500/60 pointer-events-none"
+                          style={{ left: `${(currentTime / duration) * 100}%` }}
+                      />
+                  </div>
+              ))}
+              </div>
+
+              <div className="flex items-center gap-1 w-20 justify-end">
+                  <span className="text-xs font-mono" title={`Frame ${Math.round(currentTime * getClipFps(activeClip))} at ${getClipFps(activeClip)} fps`}>{currentTime.toFixed(2)}s</span>
+                  <button
+                      onClick={() => setExpanded(!expanded)}
+                      className="hover:text-purple-400"
+                      title={expanded ? 'Hide channels' : 'Show a row per joint'}
+                  >
+                      {expanded ? <ChevronDown size={14}/> : <ChevronRight size={14}/>}
+                  </button>
+              </div>
+          </div>
+
+          {/* Selected Marker. Typing in a field is one undo step until it loses focus. */}
+          {selectedMarker && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Flag size={12} className="text-amber-400"/>
+                  <input
+                      value={selectedMarker.name}
+                      onFocus={beginHistory}
+                      onBlur={commitHistory}
+                      onChange={(e) => updateMarker(selectedMarker.id, { name: e.target.value })}
+                      className="w-32 bg-white/10 rounded px-1 py-1 text-white"
+                      placeholder="footstep_left"
+                  />
+                  <label className="flex items-center gap-1 text-white/70">
+                      at
+                      <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={selectedMarker.time}
+                          onFocus={beginHistory}
+                          onBlur={commitHistory}
+                          onChange={(e) => {
+                              const time = parseFloat(e.target.value);
+                              if (!isNaN(time)) updateMarker(selectedMarker.id, { time });
+                          }}
+                          className="w-16 bg-white/10 rounded px-1 py-1 text-white"
+                      />
+                      s
+                  </label>
+                  <button
+                      onClick={() => deleteMarker(selectedMarker.id)}
+                      className="bg-red-600 hover:bg-red-700 px-2 py-1 rounded flex items-center gap-1"
+                  >
+                      <Trash2 size={12}/> Delete
+                  </button>
+                  <button
+                      onClick={() => selectMarker(null)}
+                      className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded"
+                  >
+                      Done
+                  </button>
+              </div>
+          )}
+
+          {/* Selected Keyframes */}
+          {selectedKeyframeIds.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="text-white/60">{selectedKeyframeIds.length} selected</span>
+                  <button
+                      onClick={() => duplicateKeyframes(selectedKeyframeIds)}
+                      className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded flex items-center gap-1"
+                      title="Duplicate at the playhead, or right after the selection"
+                  >
+                      <Copy size={12}/> Duplicate
+                  </button>
+                  {selectedKeyframeIds.length === 1 && (
+                      <button
+                          onClick={() => replaceKeyframePose(selectedKeyframeIds[0])}
+                          className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded flex items-center gap-1"
+                          title="Store the current pose in this keyframe"
+                      >
+                          <Camera size={12}/> Replace Pose
+                      </button>
+                  )}
+                  {selectedKeyframeIds.length > 1 && (
+                      <label className="flex items-center gap-1 text-white/70">
+                          Scale
+                          <input
+                              type="number"
+                              min={1}
+                              step={10}
+                              value={scalePercent}
+                              onChange={(e) => setScalePercent(parseFloat(e.target.value) || 100)}
+                              className="w-14 bg-white/10 rounded px-1 py-1 text-white"
+                          />
+                          %
+                          <button
+                              onClick={() => scaleKeyframes(selectedKeyframeIds, scalePercent / 100)}
+                              className="bg-white/10 hover:bg-white/20 px-2 py-1 rounded"
+                          >
+                              Apply
+                          </button>
+                      </label>
+                  )}
+                  <button
+                      onClick={() => deleteKeyframes(selectedKeyframeIds)}
+                      className="bg-red-600 hover:bg-red-700 px-2 py-1 rounded flex items-center gap-1"
+                  >
+                      <Trash2 size={12}/> Delete
+                  </button>
+              </div>
+          )}
+      </>
+  );
+};
@@ -0,0 +1,121 @@
+import { Share } from '@capacitor/share';
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { Capacitor } from '@capacitor/core';
+
+// Saving and opening the editor's JSON files (projects, pose libraries) on native, desktop and mobile web
+
+export interface TextFileInfo {
+  title: string; // e.g. 'Stickman Project'
+  text: string; // Message shown with the share sheet
+  extension: string; // Without the dot
+}
+
+export const saveTextFile = async (json: string, fileName: string, info: TextFileInfo) => {
+  try {
+      if (Capacitor.isNativePlatform()) {
+          // Android / iOS Logic
+          try {
+              const writeResult = await Filesystem.writeFile({
+                  path: fileName,
+                  data: json,
+                  directory: Directory.Cache,
+                  encoding: Encoding.UTF8,
+              });
+
+              await Share.share({
+                  title: info.title,
+                  text: info.text,
+                  url: writeResult.uri,
+                  dialogTitle: `Save ${info.title}`,
+              });
+          } catch (err) {
+              console.error("Native Save Failed:", err);
+              alert("Save failed: " + err);
+          }
+          return;
+      }
+
+      // Step 1: Desktop "Save As" (File System Access API)
+      // Use type assertion to avoid TS errors if types aren't available
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      if (typeof (window as any).showSaveFilePicker === 'function') {
+          try {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              const handle = await (window as any).showSaveFilePicker({
+                  suggestedName: fileName,
+                  types: [{
+                      description: info.title,
+                      accept: { 'application/json': ['.' + info.extension] },
+                  }],
+              });
+              const writable = await handle.createWritable();
+              await writable.write(json);
+              await writable.close();
+              return; // Success
+          } catch (err: unknown) {
+              // Ignore AbortError (user cancelled)
+              if ((err as Error).name !== 'AbortError') {
+                  console.error("FilePicker failed:", err);
+                  // Fallthrough to other methods if it wasn't a user cancel?
+                  // No, usually if picker fails technically we might fallback, but if user cancels we stop.
+                  // Let's fallback only if it's not AbortError.
+                  throw err;
+              }
+              return;
+          }
+      }
+
+      // Step 2: Mobile Web / Share Sheet (navigator.share)
+      let shared = false;
+      // Use text/plain for broader compatibility on Android/Share Sheet
+      const blob = new Blob([json], { type: 'text/plain' });
+
+      if (navigator.share && navigator.canShare) {
+         try {
+             const file = new File([blob], fileName, { type: 'text/plain' });
+             if (navigator.canShare({ files: [file] })) {
+                 await navigator.share({
+                     files: [file],
+                     title: info.title,
+                     text: info.text,
+                 });
+                 shared = true;
+             }
+         } catch (err) {
+             console.warn("Share failed/cancelled:", err);
+             // Proceed to fallback download
+         }
+      }
+
+      // Step 3: Fallback (Legacy Download Link)
+      if (!shared) {
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = fileName;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(url);
+      }
+  } catch (e) {
+      console.error("Save failed:", e);
+      alert("Save failed: " + e);
+  }
+};
+
+export const openTextFile = (onLoad: (text: string) => void) => {
+  const input = document.createElement('input');
+  input.type = 'file';
+  // Use */* to allow picking any file (fixes grayed out files on Google Drive/Android)
+  input.accept = '*/*';
+  input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+          const reader = new FileReader();
+          reader.onload = (ev) => onLoad(ev.target?.result as string);
+          reader.readAsText(file);
+      }
+  };
+  input.click();
+};
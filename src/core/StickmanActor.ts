@@ -0,0 +1,13 @@
+import { Vector3 } from 'three';
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanClip } from './StickmanKeyframe';
+
+// A character in the scene with its own skeleton (rig and styles) and clips
+export interface StickmanActor {
+  id: string;
+  name: string;
+  position: Vector3; // World offset of the character. Keyframed root positions are relative to it
+  skeleton: StickmanSkeleton; // Working pose
+  clips: StickmanClip[];
+  activeClipId: string;
+}
@@ -0,0 +1,107 @@
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanNode } from './StickmanNode';
+import { StickmanClip, StickmanKeyframe } from './StickmanKeyframe';
+import { setClipKeyframes, findKeyframeAt } from './StickmanTimeline';
+import { v4 as uuidv4 } from 'uuid';
+
+// Animation channels. Every joint is a channel, named by its ID (local rotation and bone length,
+// plus the position for the root), and so are the skeleton-wide sizes below.
+// A keyframe keys every channel unless it lists the ones it keys in `channels`.
+export const HEAD_RADIUS_CHANNEL = 'headRadius';
+export const STROKE_WIDTH_CHANNEL = 'strokeWidth';
+export const STYLE_CHANNELS = [HEAD_RADIUS_CHANNEL, STROKE_WIDTH_CHANNEL];
+
+export const getChannels = (skeleton: StickmanSkeleton): string[] =>
+  [...skeleton.nodes.map(n => n.id), ...STYLE_CHANNELS];
+
+// A joint and everything below it, e.g. to key a whole arm
+export const getSubtreeChannels = (node: StickmanNode): string[] =>
+  [node.id, ...node.children.flatMap(getSubtreeChannels)];
+
+export const keysChannel = (keyframe: StickmanKeyframe, channel: string): boolean =>
+  !keyframe.channels || keyframe.channels.includes(channel);
+
+// Keys every channel of its pose, whether it has a list or not
+export const isWholeKeyframe = (keyframe: StickmanKeyframe): boolean => {
+  if (!keyframe.channels) return true;
+  const channels = new Set(keyframe.channels);
+  return getChannels(keyframe.skeleton).every(channel => channels.has(channel));
+};
+
+// Copy the values of some channels from one pose into another. World positions of `target`
+// are not refreshed; run updateWorldPositions once all channels are in.
+export const copyChannels = (target: StickmanSkeleton, source: StickmanSkeleton, channels: string[]) => {
+  channels.forEach(channel => {
+    if (channel === HEAD_RADIUS_CHANNEL) {
+      target.headRadius = source.headRadius;
+    } else if (channel === STROKE_WIDTH_CHANNEL) {
+      target.strokeWidth = source.strokeWidth;
+    } else {
+      const node = target.root.findNode(channel);
+      const match = source.root.findNode(channel);
+      if (!node || !match) return;
+      node.rotation.copy(match.rotation);
+      node.length = match.length;
+      if (node === target.root) node.position.copy(match.position);
+    }
+  });
+};
+
+export type ChannelValues = Map<string, number[]>;
+
+// Snapshot of all channel values, to find out later which ones an edit touched
+export const captureChannels = (skeleton: StickmanSkeleton): ChannelValues => {
+  const values: ChannelValues = new Map();
+  skeleton.nodes.forEach(node => values.set(node.id, [...node.rotation.toArray(), node.length, ...node.position.toArray()]));
+  values.set(HEAD_RADIUS_CHANNEL, [skeleton.headRadius]);
+  values.set(STROKE_WIDTH_CHANNEL, [skeleton.strokeWidth]);
+  return values;
+};
+
+export const changedChannels = (before: ChannelValues, skeleton: StickmanSkeleton, epsilon = 1e-6): string[] => {
+  const after = captureChannels(skeleton);
+  return Array.from(after.keys()).filter(channel => {
+    // Only the root's position is its own; other positions follow from FK
+    const count = channel === skeleton.root.id ? Infinity : 5;
+    const a = before.get(channel);
+    const b = after.get(channel)!.slice(0, count);
+    return !a || b.some((v, i) => Math.abs(v - a[i]) > epsilon);
+  });
+};
+
+// Key a pose at a time. Without `channels` the whole pose is keyed. A keyframe already on that
+// time keeps its ID and easing: a whole-pose write replaces its pose, a partial write only
+// overwrites (and adds) the given channels.
+export const writeKeyframe = (
+  clip: StickmanClip,
+  time: number,
+  pose: StickmanSkeleton,
+  channels?: string[]
+): StickmanClip => {
+  const existing = findKeyframeAt(clip, time);
+  if (!existing) {
+    const keyframe: StickmanKeyframe = { id: uuidv4(), skeleton: pose.clone(), timestamp: time };
+    if (channels) keyframe.channels = [...channels];
+    return setClipKeyframes(clip, [...clip.keyframes, keyframe]);
+  }
+
+  let updated: StickmanKeyframe;
+  if (!channels) {
+    updated = { ...existing, skeleton: pose.clone(), channels: undefined };
+  } else {
+    const skeleton = existing.skeleton.clone();
+    copyChannels(skeleton, pose, channels);
+    skeleton.updateWorldPositions();
+    updated = {
+      ...existing,
+      skeleton,
+      channels: existing.channels ? Array.from(new Set([...existing.channels, ...channels])) : undefined,
+    };
+  }
+  return { ...clip, keyframes: clip.keyframes.map(kf => kf === existing ? updated : kf) };
+};
+
+// Keyframes of files saved before channels existed carry no list and key every channel
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseChannels = (data: any): string[] | undefined =>
+  Array.isArray(data) ? data.filter((c: unknown) => typeof c === 'string') : undefined;
@@ -0,0 +1,203 @@
+import { Vector3 } from 'three';
+import { v4 as uuidv4 } from 'uuid';
+import { StickmanClip, StickmanKeyframe, StickmanMarker, StickmanRootMotionSample } from './StickmanKeyframe';
+import { StickmanEasing } from './StickmanEasing';
+import { sampleClip } from './StickmanClipSampler';
+import { sampleRootMotion } from './StickmanRootMotion';
+import { KEY_TIME_TOLERANCE } from './StickmanTimeline';
+import { getChannels, keysChannel, copyChannels } from './StickmanChannels';
+
+// Whole-clip operations. Each builds a new clip (new clip, keyframe and marker IDs, cloned poses)
+// and leaves its inputs untouched. A root-motion track goes through the same edit as the keys.
+
+const UP = new Vector3(0, 1, 0);
+
+const sortByTime = (keyframes: StickmanKeyframe[]) => [...keyframes].sort((a, b) => a.timestamp - b.timestamp);
+
+// A track sample as seen from `origin`: its travel in the heading the character had there
+const rebaseSample = (sample: StickmanRootMotionSample, origin: StickmanRootMotionSample): StickmanRootMotionSample => {
+  const step = new Vector3(sample.x - origin.x, 0, sample.z - origin.z).applyAxisAngle(UP, -origin.yaw);
+  return { time: sample.time, x: step.x, z: step.z, yaw: sample.yaw - origin.yaw };
+};
+
+// The inverse: a sample of a track that starts at `origin`
+const offsetSample = (sample: StickmanRootMotionSample, origin: StickmanRootMotionSample): StickmanRootMotionSample => {
+  const step = new Vector3(sample.x, 0, sample.z).applyAxisAngle(UP, origin.yaw);
+  return { time: sample.time, x: origin.x + step.x, z: origin.z + step.z, yaw: sample.yaw + origin.yaw };
+};
+
+// The track over [from, to], shifted to start at time 0 with no travel. A clip without a track
+// gives one that stays put.
+const trimRootMotion = (clip: StickmanClip, from: number, to: number): StickmanRootMotionSample[] => {
+  const origin = sampleRootMotion(clip, from);
+  const inside = (clip.rootMotion || []).filter(s => s.time > from + KEY_TIME_TOLERANCE && s.time < to - KEY_TIME_TOLERANCE);
+  return [origin, ...inside, sampleRootMotion(clip, to)].map(s => ({ ...rebaseSample(s, origin), time: s.time - from }));
+};
+
+// A new clip with the settings of `source` and fresh IDs for everything in it
+const deriveClip = (
+  source: StickmanClip,
+  name: string,
+  keyframes: StickmanKeyframe[],
+  duration: number,
+  markers: StickmanMarker[] = [],
+  rootMotion?: StickmanRootMotionSample[]
+): StickmanClip => ({
+  id: uuidv4(),
+  name,
+  interpolation: source.interpolation,
+  curve: source.curve,
+  loop: source.loop,
+  fps: source.fps,
+  duration: Math.max(0, duration),
+  keyframes: sortByTime(keyframes).map(kf => ({ ...kf, id: uuidv4(), skeleton: kf.skeleton.clone() })),
+  markers: [...markers].sort((a, b) => a.time - b.time).map(m => ({ ...m, id: uuidv4() })),
+  ...(rootMotion && { rootMotion: rootMotion.map(s => ({ ...s })).sort((a, b) => a.time - b.time) }),
+});
+
+// An independent copy, root motion included
+export const duplicateClip = (clip: StickmanClip, name = `${clip.name} (copy)`): StickmanClip =>
+  deriveClip(clip, name, clip.keyframes, clip.duration, clip.markers, clip.rootMotion);
+
+// The same curve played backwards. A hold is not a curve: it is returned as it is, and
+// reverseClip moves its jump to the start of the segment instead.
+export const reverseEasing = (easing?: StickmanEasing): StickmanEasing | undefined => {
+  switch (easing?.type) {
+    case 'easeIn': return { type: 'easeOut' };
+    case 'easeOut': return { type: 'easeIn' };
+    case 'bezier': {
+      const [x1, y1, x2, y2] = easing.handles!;
+      return { type: 'bezier', handles: [1 - x2, 1 - y2, 1 - x1, 1 - y1] };
+    }
+    default: return easing;
+  }
+};
+
+// Keys and markers past the end (left there when a clip is shortened) are not played. Clips that
+// have some are cut to the part that plays before their keys are reordered.
+const playedPart = (clip: StickmanClip): StickmanClip => {
+  const pastEnd = clip.keyframes.some(kf => kf.timestamp > clip.duration + KEY_TIME_TOLERANCE)
+    || (clip.markers || []).some(m => m.time > clip.duration);
+  return pastEnd ? trimClip(clip, 0, clip.duration, clip.name) : clip;
+};
+
+export const reverseClip = (source: StickmanClip): StickmanClip => {
+  const clip = playedPart(source);
+  const keyframes = clip.keyframes;
+  // The segment leaving a reversed key is the one that used to arrive at it, eased by the last
+  // key before it that keys the same channel. Channels that arrived with different easings get
+  // a key each. A held segment jumped to this key at its end, so reversed it jumps away at its
+  // start: a second key on the same time holds the earlier values.
+  const reversed = keyframes.flatMap((kf, i): StickmanKeyframe[] => {
+    const timestamp = clip.duration - kf.timestamp;
+    const channels = kf.channels || getChannels(kf.skeleton);
+    const groups = new Map<string, { easing?: StickmanEasing, channels: string[] }>();
+    const unused: string[] = []; // Channels whose leaving easing is never played
+    const held = new Map<string, StickmanKeyframe>(); // Held channel -> the key it held
+    channels.forEach(channel => {
+      const previous = keyframes.slice(0, i).reverse().find(k => keysChannel(k, channel));
+      if (!previous || previous.easing?.type === 'step') {
+        unused.push(channel);
+        if (previous) held.set(channel, previous);
+        return;
+      }
+      const easing = reverseEasing(previous.easing);
+      const signature = easing && easing.type !== 'linear' ? JSON.stringify(easing) : 'linear';
+      const group = groups.get(signature);
+      if (group) group.channels.push(channel);
+      else groups.set(signature, { easing, channels: [channel] });
+    });
+
+    const split = Array.from(groups.values());
+    if (split.length > 1) split[0].channels.push(...unused);
+    const keys: StickmanKeyframe[] = split.length <= 1
+      ? [{ ...kf, timestamp, easing: split[0]?.easing }]
+      : split.map(group => ({ ...kf, timestamp, easing: group.easing, channels: group.channels }));
+    if (held.size === 0) return keys;
+
+    const skeleton = kf.skeleton.clone();
+    held.forEach((previous, channel) => copyChannels(skeleton, previous.skeleton, [channel]));
+    skeleton.updateWorldPositions();
+    const holding = held.size === channels.length ? kf.channels : Array.from(held.keys());
+    return [...keys, { ...kf, timestamp, skeleton, easing: undefined, channels: holding }];
+  });
+  const markers = (clip.markers || []).map(m => ({ ...m, time: clip.duration - m.time }));
+  // The travel runs backwards from where the clip used to end
+  let rootMotion: StickmanRootMotionSample[] | undefined;
+  if (clip.rootMotion) {
+    const track = trimRootMotion(clip, 0, clip.duration);
+    const end = track[track.length - 1];
+    rootMotion = track.map(s => ({ ...rebaseSample(s, end), time: clip.duration - s.time }));
+  }
+  return deriveClip(clip, `${clip.name} (reversed)`, reversed, clip.duration, markers, rootMotion);
+};
+
+// Play `factor` times as fast (2 halves the duration)
+export const retimeClip = (clip: StickmanClip, factor: number): StickmanClip => {
+  if (!(factor > 0)) return deriveClip(clip, clip.name, clip.keyframes, clip.duration, clip.markers, clip.rootMotion);
+  const keyframes = clip.keyframes.map(kf => ({ ...kf, timestamp: kf.timestamp / factor }));
+  const markers = (clip.markers || []).map(m => ({ ...m, time: m.time / factor }));
+  const rootMotion = clip.rootMotion?.map(s => ({ ...s, time: s.time / factor }));
+  return deriveClip(clip, `${clip.name} (x${+factor.toFixed(2)})`, keyframes, clip.duration / factor, markers, rootMotion);
+};
+
+export const retimeClipToDuration = (clip: StickmanClip, duration: number): StickmanClip =>
+  clip.duration > 0 && duration > 0 ? retimeClip(clip, clip.duration / duration) : retimeClip(clip, 1);
+
+// Keep [start, end], shifted to begin at 0. Ends that fall between keyframes get a keyframe with
+// the evaluated pose, so the trimmed clip plays the same motion.
+export const trimClip = (clip: StickmanClip, start: number, end: number, name = `${clip.name} (trimmed)`): StickmanClip => {
+  const from = Math.max(0, Math.min(start, end));
+  const to = Math.max(start, end);
+  const inside = clip.keyframes.filter(kf => kf.timestamp >= from - KEY_TIME_TOLERANCE && kf.timestamp <= to + KEY_TIME_TOLERANCE);
+
+  const boundary = (time: number): StickmanKeyframe[] => {
+    if (inside.some(kf => Math.abs(kf.timestamp - time) <= KEY_TIME_TOLERANCE)) return [];
+    const pose = sampleClip(clip, time);
+    if (!pose) return [];
+    // Carries on with the easing of the segment it cuts
+    const segment = [...clip.keyframes].reverse().find(kf => kf.timestamp <= time);
+    return [{ id: '', skeleton: pose, timestamp: time, easing: segment?.easing }];
+  };
+
+  const keyframes = [...boundary(from), ...inside, ...boundary(to)]
+    .map(kf => ({ ...kf, timestamp: Math.max(0, Math.min(to, kf.timestamp) - from) }));
+  const markers = (clip.markers || [])
+    .filter(m => m.time >= from && m.time <= to)
+    .map(m => ({ ...m, time: m.time - from }));
+  const rootMotion = clip.rootMotion && trimRootMotion(clip, from, to);
+  return deriveClip(clip, name, keyframes, to - from, markers, rootMotion);
+};
+
+// Play `first`, then blend into `second` over `gap` seconds and play it. Both clips should come
+// from the same actor so their joints match.
+export const appendClip = (firstClip: StickmanClip, secondClip: StickmanClip, gap = 0, name = `${firstClip.name} + ${secondClip.name}`): StickmanClip => {
+  const first = playedPart(firstClip);
+  const second = playedPart(secondClip);
+  const offset = first.duration + Math.max(0, gap);
+  const shifted = second.keyframes.map(kf => ({ ...kf, timestamp: kf.timestamp + offset }));
+  // Without a gap the first key of `second` takes the place of a key ending `first`
+  const kept = first.keyframes.filter(kf => !shifted.some(s => Math.abs(s.timestamp - kf.timestamp) <= KEY_TIME_TOLERANCE));
+  const markers = [
+    ...(first.markers || []),
+    ...(second.markers || []).map(m => ({ ...m, time: m.time + offset })),
+  ];
+  // `second` travels on from where `first` ended, in the heading it ended with
+  let rootMotion: StickmanRootMotionSample[] | undefined;
+  if (first.rootMotion || second.rootMotion) {
+    const firstTrack = trimRootMotion(first, 0, first.duration);
+    const end = firstTrack[firstTrack.length - 1];
+    const secondTrack = trimRootMotion(second, 0, second.duration).map(s => ({ ...offsetSample(s, end), time: s.time + offset }));
+    rootMotion = [...firstTrack.filter(s => s.time < secondTrack[0].time - KEY_TIME_TOLERANCE), ...secondTrack];
+  }
+  return deriveClip(first, name, [...kept, ...shifted], offset + second.duration, markers, rootMotion);
+};
+
+// Forward, then backwards to the start
+export const pingPongClip = (clip: StickmanClip): StickmanClip =>
+  appendClip(clip, reverseClip(clip), 0, `${clip.name} (ping-pong)`);
+
+export const splitClip = (clip: StickmanClip, time: number): [StickmanClip, StickmanClip] => [
+  trimClip(clip, 0, time, `${clip.name} (1)`),
+  trimClip(clip, time, clip.duration, `${clip.name} (2)`),
+];
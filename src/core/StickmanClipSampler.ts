@@ -0,0 +1,77 @@
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanClip, StickmanKeyframe } from './StickmanKeyframe';
+import { applyEasing } from './StickmanEasing';
+import { getChannels, keysChannel, copyChannels, isWholeKeyframe } from './StickmanChannels';
+
+// Evaluate the pose of a clip at a given time. Keyframes must be sorted by timestamp.
+// Returns null for clips without keyframes. Times outside the keyed range hold the first/last pose.
+// Each channel is interpolated between the keyframes that key it; channels no keyframe keys
+// keep the values of the first keyframe.
+export const sampleClip = (clip: StickmanClip, time: number): StickmanSkeleton | null => {
+  const keyframes = clip.keyframes;
+  if (keyframes.length === 0) return null;
+  if (keyframes.every(isWholeKeyframe)) return samplePose(clip, keyframes, time);
+
+  // Channels keyed by the same keyframes are sampled together
+  const result = keyframes[0].skeleton.clone();
+  const groups = new Map<string, { keys: StickmanKeyframe[], channels: string[] }>();
+  getChannels(result).forEach(channel => {
+    const keys = keyframes.filter(kf => keysChannel(kf, channel));
+    if (keys.length === 0) return;
+    const signature = keys.map(kf => kf.id).join(',');
+    const group = groups.get(signature);
+    if (group) group.channels.push(channel);
+    else groups.set(signature, { keys, channels: [channel] });
+  });
+
+  groups.forEach(({ keys, channels }) => {
+    copyChannels(result, samplePose(clip, keys, time)!, channels);
+  });
+  result.updateWorldPositions();
+  return result;
+};
+
+const samplePose = (clip: StickmanClip, keyframes: StickmanKeyframe[], time: number): StickmanSkeleton | null => {
+  if (keyframes.length === 0) return null;
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (keyframes.length === 1 || time <= first.timestamp) return first.skeleton.clone();
+  if (time >= last.timestamp) return last.skeleton.clone();
+
+  let index = 0;
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    if (keyframes[i].timestamp <= time && keyframes[i + 1].timestamp >= time) {
+      index = i;
+      break;
+    }
+  }
+  const prevKeyframe = keyframes[index];
+  const nextKeyframe = keyframes[index + 1];
+
+  // Handle edge case where timestamps might be equal
+  const range = nextKeyframe.timestamp - prevKeyframe.timestamp;
+  const alpha = range > 0.0001 ? (time - prevKeyframe.timestamp) / range : 0;
+
+  // The easing of a keyframe shapes the segment that leaves it
+  const eased = applyEasing(prevKeyframe.easing, alpha);
+
+  if (clip.curve === 'spline') {
+    // Neighbours are clamped at the clip ends
+    const before = keyframes[Math.max(0, index - 1)];
+    const after = keyframes[Math.min(keyframes.length - 1, index + 2)];
+    const t0 = before.timestamp;
+    const t1 = prevKeyframe.timestamp;
+    const t2 = nextKeyframe.timestamp;
+    const t3 = after.timestamp;
+    const tangentScales: [number, number] = [
+      t2 - t0 > 0.0001 ? range / (t2 - t0) : 0,
+      t3 - t1 > 0.0001 ? range / (t3 - t1) : 0,
+    ];
+    return prevKeyframe.skeleton.spline(
+      before.skeleton, nextKeyframe.skeleton, after.skeleton, eased, tangentScales, clip.interpolation
+    );
+  }
+
+  return prevKeyframe.skeleton.lerp(nextKeyframe.skeleton, eased, clip.interpolation);
+};
@@ -0,0 +1,52 @@
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanPose, createPose, applyPose, parsePose } from './StickmanPoseLibrary';
+import { findMirrorPairs, reflectRotation } from './StickmanMirror';
+
+// Pose clipboard: a whole pose or some joints as a versioned JSON text, so it goes through the
+// system clipboard and can be pasted in another editor window. The payload is a library pose
+// (see StickmanPoseLibrary), so pasting remaps joints by name when their IDs differ.
+
+export const POSE_CLIPBOARD_FORMAT = 'stickman-pose-clipboard';
+export const POSE_CLIPBOARD_VERSION = 1;
+
+export const copyPoseToText = (skeleton: StickmanSkeleton, jointIds?: string[]): string =>
+  JSON.stringify({
+    format: POSE_CLIPBOARD_FORMAT,
+    version: POSE_CLIPBOARD_VERSION,
+    pose: createPose(skeleton, 'Clipboard', jointIds),
+  });
+
+// The pose in a clipboard text, or null when the text is something else (or from a newer editor)
+export const parsePoseClipboard = (text: string): StickmanPose | null => {
+  try {
+    const data = JSON.parse(text);
+    if (!data || data.format !== POSE_CLIPBOARD_FORMAT || !(data.version <= POSE_CLIPBOARD_VERSION)) return null;
+    return parsePose(data.pose);
+  } catch {
+    return null;
+  }
+};
+
+// Apply a copied pose. With `mirror` every pasted joint lands on its opposite-side counterpart,
+// reflected (joints without a side are reflected in place). Returns the IDs of the joints it set.
+export const pastePose = (skeleton: StickmanSkeleton, pose: StickmanPose, mirror = false): string[] => {
+  if (!mirror) return applyPose(skeleton, pose);
+
+  const pasted = skeleton.clone();
+  const joints = applyPose(pasted, pose);
+  const pairs = findMirrorPairs(skeleton.root);
+  const targets = joints.map(id => {
+    const source = pasted.root.findNode(id)!;
+    // The root defines the mirror plane: it keeps its rotation and only takes the pasted height
+    if (id === skeleton.root.id) {
+      skeleton.root.position.y = source.position.y;
+      return id;
+    }
+    const targetId = pairs.get(id) || id;
+    skeleton.root.findNode(targetId)!.rotation.copy(reflectRotation(source.rotation));
+    return targetId;
+  });
+  skeleton.updateWorldPositions();
+  skeleton.applyConstraints();
+  return targets;
+};
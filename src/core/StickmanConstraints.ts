@@ -0,0 +1,85 @@
+import { Vector3, Quaternion } from 'three';
+import { StickmanNode } from './StickmanNode';
+
+// Angle limits of a joint. A constraint on joint J limits the bones leading from J to its children,
+// measured in J's frame where J's own bone points along +Y (so 0 means "straight on").
+// - 'hinge': children bend in the plane perpendicular to `axis`, between minAngle and maxAngle
+//   (signed rotation about `axis`, radians)
+// - 'cone': children may deviate from the straight direction by at most coneAngle (radians)
+export interface StickmanJointConstraint {
+  type: 'hinge' | 'cone';
+  axis?: [number, number, number];
+  minAngle?: number;
+  maxAngle?: number;
+  coneAngle?: number;
+}
+
+const STRAIGHT = new Vector3(0, 1, 0);
+const DEG = Math.PI / 180;
+
+// Starting values for a new constraint. Knees bend backward, everything else forward.
+export const createDefaultConstraint = (type: 'hinge' | 'cone', jointName: string): StickmanJointConstraint => {
+  if (type === 'cone') return { type, coneAngle: 60 * DEG };
+  return jointName.toLowerCase().includes('knee')
+    ? { type, axis: [1, 0, 0], minAngle: -150 * DEG, maxAngle: 0 }
+    : { type, axis: [1, 0, 0], minAngle: 0, maxAngle: 150 * DEG };
+};
+
+// Clamp a unit direction (in the joint's frame) into the allowed range. Returns null if it already fits.
+export const clampDirection = (constraint: StickmanJointConstraint, direction: Vector3): Vector3 | null => {
+  if (constraint.type === 'cone') {
+    const limit = constraint.coneAngle ?? Math.PI;
+    const angle = STRAIGHT.angleTo(direction);
+    if (angle <= limit + 1e-6) return null;
+    const axis = new Vector3().crossVectors(STRAIGHT, direction);
+    if (axis.length() < 1e-6) axis.set(1, 0, 0); // Pointing straight back: pick any side
+    return STRAIGHT.clone().applyAxisAngle(axis.normalize(), limit);
+  }
+
+  const axis = new Vector3().fromArray(constraint.axis || [1, 0, 0]).normalize();
+  // Reference direction: "straight" projected into the hinge plane
+  const reference = STRAIGHT.clone().projectOnPlane(axis);
+  if (reference.length() < 1e-6) return null; // Degenerate hinge along the bone: no limit
+  reference.normalize();
+
+  const planar = direction.clone().projectOnPlane(axis);
+  const angle = planar.length() < 1e-6
+    ? 0
+    : Math.atan2(new Vector3().crossVectors(reference, planar).dot(axis), reference.dot(planar));
+  const clamped = Math.max(constraint.minAngle ?? -Math.PI, Math.min(constraint.maxAngle ?? Math.PI, angle));
+
+  const result = reference.applyAxisAngle(axis, clamped);
+  // Already inside the plane and the range
+  if (result.distanceTo(direction) < 1e-6) return null;
+  return result;
+};
+
+// Enforce the constraint of `joint` on the local rotations of its children.
+// Returns true when any child had to be corrected (world positions then need an FK pass).
+export const constrainChildren = (joint: StickmanNode, constraint: StickmanJointConstraint): boolean => {
+  let changed = false;
+  joint.children.forEach(child => {
+    const direction = STRAIGHT.clone().applyQuaternion(child.rotation);
+    const clamped = clampDirection(constraint, direction);
+    if (!clamped) return;
+    // Keep the twist of the child by applying the smallest correcting rotation
+    const correction = new Quaternion().setFromUnitVectors(direction, clamped);
+    child.rotation.premultiply(correction).normalize();
+    changed = true;
+  });
+  return changed;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseConstraint = (data: any): StickmanJointConstraint | undefined => {
+  if (!data || (data.type !== 'hinge' && data.type !== 'cone')) return undefined;
+  if (data.type === 'cone') {
+    return { type: 'cone', coneAngle: Number(data.coneAngle ?? Math.PI) };
+  }
+  return {
+    type: 'hinge',
+    axis: Array.isArray(data.axis) && data.axis.length === 3 ? data.axis.map(Number) : [1, 0, 0],
+    minAngle: Number(data.minAngle ?? -Math.PI),
+    maxAngle: Number(data.maxAngle ?? Math.PI),
+  };
+};
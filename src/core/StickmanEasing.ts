@@ -0,0 +1,83 @@
+export type StickmanEasingType = 'linear' | 'step' | 'easeIn' | 'easeOut' | 'easeInOut' | 'bezier';
+
+export interface StickmanEasing {
+  type: StickmanEasingType;
+  // Cubic-bezier handles [x1, y1, x2, y2], same convention as CSS cubic-bezier(). Only used by 'bezier'.
+  handles?: [number, number, number, number];
+}
+
+export const EASING_TYPES: StickmanEasingType[] = ['linear', 'step', 'easeIn', 'easeOut', 'easeInOut', 'bezier'];
+
+// Handles of the named presets (matching the CSS keywords)
+const PRESET_HANDLES: Record<'easeIn' | 'easeOut' | 'easeInOut', [number, number, number, number]> = {
+  easeIn: [0.42, 0, 1, 1],
+  easeOut: [0, 0, 0.58, 1],
+  easeInOut: [0.42, 0, 0.58, 1],
+};
+
+export const DEFAULT_BEZIER_HANDLES: [number, number, number, number] = [0.25, 0.1, 0.25, 1];
+
+// Evaluate a cubic-bezier timing curve at x (Newton iterations with a bisection fallback)
+const cubicBezier = (x: number, [x1, y1, x2, y2]: [number, number, number, number]): number => {
+  const bezier = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  const slope = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * p1 + 6 * (1 - t) * t * (p2 - p1) + 3 * t * t * (1 - p2);
+
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const error = bezier(t, x1, x2) - x;
+    if (Math.abs(error) < 1e-6) return bezier(t, y1, y2);
+    const d = slope(t, x1, x2);
+    if (Math.abs(d) < 1e-6) break;
+    t -= error / d;
+  }
+
+  // Newton did not converge (flat slope); bisect instead
+  let lo = 0;
+  let hi = 1;
+  t = x;
+  for (let i = 0; i < 30; i++) {
+    const value = bezier(t, x1, x2);
+    if (Math.abs(value - x) < 1e-6) break;
+    if (value < x) lo = t; else hi = t;
+    t = (lo + hi) / 2;
+  }
+  return bezier(t, y1, y2);
+};
+
+// Map a linear segment progress (0..1) through an easing curve
+export const applyEasing = (easing: StickmanEasing | undefined, alpha: number): number => {
+  const t = Math.max(0, Math.min(1, alpha));
+  if (!easing) return t;
+
+  switch (easing.type) {
+    case 'step':
+      // Hold the pose until the next keyframe is reached
+      return t < 1 ? 0 : 1;
+    case 'easeIn':
+    case 'easeOut':
+    case 'easeInOut':
+      return cubicBezier(t, PRESET_HANDLES[easing.type]);
+    case 'bezier':
+      return cubicBezier(t, easing.handles || DEFAULT_BEZIER_HANDLES);
+    default:
+      return t;
+  }
+};
+
+// Read an easing from SA3 keyframe data. Unknown or missing values fall back to linear (undefined).
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseEasing = (data: any): StickmanEasing | undefined => {
+  if (!data || !EASING_TYPES.includes(data.type)) return undefined;
+  if (data.type === 'bezier') {
+    const handles = Array.isArray(data.handles) && data.handles.length === 4
+      ? data.handles.map(Number) as [number, number, number, number]
+      : [...DEFAULT_BEZIER_HANDLES] as [number, number, number, number];
+    // X handles must stay within 0..1 for the curve to remain a function of time
+    handles[0] = Math.max(0, Math.min(1, handles[0]));
+    handles[2] = Math.max(0, Math.min(1, handles[2]));
+    return { type: 'bezier', handles };
+  }
+  return { type: data.type };
+};
@@ -0,0 +1,163 @@
+import { Vector3 } from 'three';
+import { v4 as uuidv4 } from 'uuid';
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanClip, StickmanKeyframe } from './StickmanKeyframe';
+import { StickmanIKChain } from './StickmanRig';
+import { applyIKChain } from './StickmanPosing';
+
+// Procedural walk/run cycles built on a skeleton's rig: IK chains hanging below the root are
+// legs (feet placed with two-bone IK), the other chains are arms.
+
+export interface StickmanGaitParams {
+  stride: number; // Distance one step covers, in world units
+  cadence: number; // Steps per minute
+  armSwing: number; // Swing of the upper arms to each side of hanging, in radians
+  elbowBend: number; // Forward bend of the forearms, in radians
+  bounce: number; // Hip rise and fall, in world units
+  footLift: number; // Height of a foot at mid-swing, in world units
+  lean: number; // Forward lean of the upper body, in radians
+  duration: number; // Rounded to whole cycles so the clip loops
+  inPlace: boolean; // Otherwise the hip travels forward (see StickmanRootMotion to extract it)
+}
+
+export const WALK_GAIT: StickmanGaitParams = {
+  stride: 0.6,
+  cadence: 110,
+  armSwing: 0.35,
+  elbowBend: 0.3,
+  bounce: 0.04,
+  footLift: 0.12,
+  lean: 0.05,
+  duration: 2,
+  inPlace: true,
+};
+
+export const RUN_GAIT: StickmanGaitParams = {
+  stride: 1.0,
+  cadence: 170,
+  armSwing: 0.7,
+  elbowBend: 1.4,
+  bounce: 0.08,
+  footLift: 0.35,
+  lean: 0.2,
+  duration: 2,
+  inPlace: true,
+};
+
+const KEYS_PER_STEP = 4;
+const UP = new Vector3(0, 1, 0);
+const DOWN = new Vector3(0, -1, 0);
+
+interface Limb {
+  chain: StickmanIKChain;
+  side: number; // Offset along the lateral axis, negative on one side
+  phase: number; // 0 or 0.5 of a cycle
+}
+
+// Position of a foot along the walking direction (relative to the hip) and its height at a point
+// of its own cycle: planted and sliding back for the first half, swinging forward for the second
+const footAt = (phase: number, stride: number, lift: number): [number, number] => {
+  if (phase < 0.5) return [stride / 2 - stride * (phase / 0.5), 0];
+  const swing = (phase - 0.5) / 0.5;
+  return [-stride / 2 + stride * (0.5 - 0.5 * Math.cos(Math.PI * swing)), lift * Math.sin(Math.PI * swing)];
+};
+
+// Build a looping clip from the pose of `base`. The cycle heads where the knees point (the pole of
+// the leg chains), so legs always bend the right way; +Z without a pole.
+export const generateGait = (base: StickmanSkeleton, params: StickmanGaitParams, name = 'Walk'): StickmanClip => {
+  const rig = base.rig;
+  const hip = base.root;
+  const nodeOf = (id: string) => base.root.findNode(id)!;
+  const chains = rig.chains.filter(c => base.root.findNode(c.rootId) && base.root.findNode(c.jointId) && base.root.findNode(c.effectorId));
+  const legChains = chains.filter(c => nodeOf(c.rootId).position.y <= hip.position.y + 1e-3);
+  const armChains = chains.filter(c => !legChains.includes(c));
+
+  const pole = legChains.find(c => c.pole)?.pole;
+  const forward = pole
+    ? new Vector3().fromArray(pole).applyQuaternion(hip.rotation).setY(0).normalize()
+    : new Vector3(0, 0, 1);
+  if (forward.lengthSq() === 0) forward.set(0, 0, 1);
+  const lateral = new Vector3().crossVectors(forward, UP).normalize();
+  const leanAxis = new Vector3().crossVectors(UP, forward).normalize();
+
+  const sideOf = (id: string) => new Vector3().subVectors(nodeOf(id).position, hip.position).dot(lateral);
+  const limbs = (list: StickmanIKChain[], flip: boolean): Limb[] =>
+    list.map(chain => {
+      const side = sideOf(chain.effectorId);
+      return { chain, side, phase: (side >= 0) !== flip ? 0 : 0.5 };
+    });
+  const legs = limbs(legChains, false);
+  // Arms swing against the leg on their side
+  const arms = limbs(armChains, true);
+
+  // Ground under the lowest foot; the hip stays low enough for the legs to reach a full stride
+  const ground = legs.length > 0 ? Math.min(...legs.map(l => nodeOf(l.chain.effectorId).position.y)) : 0;
+  let hipHeight = hip.position.y - ground;
+  legs.forEach(({ chain, side }) => {
+    const reach = (nodeOf(chain.jointId).length + nodeOf(chain.effectorId).length) * 0.98;
+    const room = reach * reach - side * side - (params.stride / 2) ** 2;
+    hipHeight = Math.min(hipHeight, params.bounce + Math.sqrt(Math.max(0, room)));
+  });
+
+  const stepTime = 60 / Math.max(1, params.cadence);
+  const cycleTime = 2 * stepTime;
+  const cycles = Math.max(1, Math.round(params.duration / cycleTime));
+  const keyCount = cycles * 2 * KEYS_PER_STEP;
+  const origin = hip.position.clone();
+
+  const keyframes: StickmanKeyframe[] = [];
+  for (let k = 0; k <= keyCount; k++) {
+    const time = (k / keyCount) * cycles * cycleTime;
+    const cycle = (time / cycleTime) % 1;
+    const skeleton = base.clone();
+    const root = skeleton.root;
+
+    // Lowest on foot contact, highest when the feet pass each other
+    const y = ground + hipHeight - params.bounce * (0.5 + 0.5 * Math.cos(4 * Math.PI * cycle));
+    const travel = params.inPlace ? 0 : (time / stepTime) * params.stride;
+    root.position.copy(origin).addScaledVector(forward, travel).setY(y);
+    skeleton.updateWorldPositions();
+
+    // Lean the upper body (every branch of the root that isn't a leg)
+    root.children
+      .filter(child => !legChains.some(c => c.jointId === child.id))
+      .forEach(child => {
+        const offset = new Vector3().subVectors(child.position, root.position).applyAxisAngle(leanAxis, params.lean);
+        skeleton.aimNode(child.id, offset.add(root.position));
+      });
+
+    arms.forEach(({ chain, side, phase }) => {
+      const shoulder = skeleton.root.findNode(chain.rootId)!;
+      const elbow = skeleton.root.findNode(chain.jointId)!;
+      const hand = skeleton.root.findNode(chain.effectorId)!;
+      const angle = params.armSwing * Math.cos(2 * Math.PI * (cycle + phase));
+      const direction = (a: number) => DOWN.clone().multiplyScalar(Math.cos(a))
+        .addScaledVector(forward, Math.sin(a))
+        .addScaledVector(lateral, Math.sign(side) * 0.15)
+        .normalize();
+      const elbowPos = shoulder.position.clone().addScaledVector(direction(angle), elbow.length);
+      skeleton.aimNode(elbow.id, elbowPos);
+      skeleton.aimNode(hand.id, elbowPos.clone().addScaledVector(direction(angle + params.elbowBend), hand.length));
+    });
+
+    legs.forEach(({ chain, side, phase }) => {
+      const [along, lift] = footAt((cycle + phase) % 1, params.stride, params.footLift);
+      const target = origin.clone()
+        .addScaledVector(forward, travel + along)
+        .addScaledVector(lateral, side)
+        .setY(ground + lift);
+      applyIKChain(skeleton, chain, target);
+    });
+
+    keyframes.push({ id: uuidv4(), skeleton, timestamp: time });
+  }
+
+  return {
+    id: uuidv4(),
+    name,
+    duration: cycles * cycleTime,
+    keyframes,
+    interpolation: 'rotation',
+    curve: 'spline',
+  };
+};
@@ -1,9 +1,32 @@
-import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanSkeleton, StickmanInterpolationMode } from './StickmanSkeleton';
+import { StickmanEasing } from './StickmanEasing';
 
 export interface StickmanKeyframe {
   id: string;
   skeleton: StickmanSkeleton; // The pose at this keyframe
   timestamp: number; // Time in seconds or frame index
+  easing?: StickmanEasing; // Curve of the segment leaving this keyframe. Defaults to linear
+  channels?: string[]; // Channels this keyframe keys (see StickmanChannels). Defaults to all of them
+}
+
+// 'linear' blends only the two keyframes around the playhead,
+// 'spline' runs a Catmull-Rom curve through the neighbouring keyframes as well
+export type StickmanCurveMode = 'linear' | 'spline';
+
+// Named point in time of a clip (footsteps, hits, sounds), reported as an event when playback crosses it
+export interface StickmanMarker {
+  id: string;
+  name: string;
+  time: number; // Seconds
+}
+
+// Root-motion track value (see StickmanRootMotion): travel of the root joint since the start of
+// the clip, horizontal only, and its turn around +Y in radians
+export interface StickmanRootMotionSample {
+  time: number;
+  x: number;
+  z: number;
+  yaw: number;
 }
 
 export interface StickmanClip {
@@ -11,4 +34,10 @@ export interface StickmanClip {
   name: string;
   keyframes: StickmanKeyframe[];
   duration: number; // Total duration in seconds
+  interpolation?: StickmanInterpolationMode; // Defaults to 'rotation'
+  curve?: StickmanCurveMode; // Defaults to 'linear'
+  markers?: StickmanMarker[]; // Sorted by time
+  rootMotion?: StickmanRootMotionSample[]; // Sorted by time. Set once the root's travel is extracted
+  loop?: boolean; // Starts over when it ends. Defaults to true
+  fps?: number; // Frame rate the editor snaps the playhead to. Defaults to DEFAULT_CLIP_FPS (StickmanTimeline)
 }
@@ -0,0 +1,73 @@
+import { StickmanClip, StickmanMarker } from './StickmanKeyframe';
+import { v4 as uuidv4 } from 'uuid';
+
+// Marker editing. Like the keyframe edits these return a new clip and keep markers sorted.
+
+const sortMarkers = (markers: StickmanMarker[]) => [...markers].sort((a, b) => a.time - b.time);
+
+export const addMarker = (clip: StickmanClip, name: string, time: number): { clip: StickmanClip, markerId: string } => {
+  const marker: StickmanMarker = { id: uuidv4(), name, time: Math.max(0, time) };
+  return { clip: { ...clip, markers: sortMarkers([...(clip.markers || []), marker]) }, markerId: marker.id };
+};
+
+export const updateMarker = (clip: StickmanClip, id: string, changes: Partial<Omit<StickmanMarker, 'id'>>): StickmanClip => ({
+  ...clip,
+  markers: sortMarkers((clip.markers || []).map(m => m.id === id
+    ? { ...m, ...changes, time: Math.max(0, changes.time ?? m.time) }
+    : m
+  )),
+});
+
+export const deleteMarker = (clip: StickmanClip, id: string): StickmanClip => ({
+  ...clip,
+  markers: (clip.markers || []).filter(m => m.id !== id),
+});
+
+// Advance a play position by `delta` seconds and collect the markers crossed on the way, in
+// playback order. Markers on the start time only count when `includeStart` is set (the first
+// update after starting the clip). With `loop`, a delta spanning several plays reports the
+// markers of every play; `wraps` counts the restarts.
+export const advanceClipTime = (
+  clip: StickmanClip,
+  time: number,
+  delta: number,
+  loop: boolean,
+  includeStart = false
+): { time: number, markers: StickmanMarker[], wraps: number } => {
+  const duration = clip.duration;
+  const markers = clip.markers || [];
+  const crossed: StickmanMarker[] = [];
+  const collect = (from: number, to: number, inclusive: boolean) => {
+    markers.forEach(m => {
+      if ((inclusive ? m.time >= from : m.time > from) && m.time <= to) crossed.push(m);
+    });
+  };
+
+  if (duration <= 0) return { time: 0, markers: crossed, wraps: 0 };
+
+  let end = time + delta;
+  if (end <= duration || !loop) {
+    end = Math.min(end, duration);
+    collect(time, end, includeStart);
+    return { time: end, markers: crossed, wraps: 0 };
+  }
+
+  collect(time, duration, includeStart);
+  end -= duration;
+  let wraps = 1;
+  while (end > duration) {
+    collect(0, duration, true);
+    end -= duration;
+    wraps++;
+  }
+  collect(0, end, true);
+  return { time: end, markers: crossed, wraps };
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseMarkers = (data: any): StickmanMarker[] | undefined => {
+  if (!Array.isArray(data)) return undefined;
+  return sortMarkers(data
+    .filter(m => m && typeof m.time === 'number')
+    .map(m => ({ id: m.id || uuidv4(), name: String(m.name ?? ''), time: Math.max(0, m.time) })));
+};
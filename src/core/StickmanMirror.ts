@@ -0,0 +1,76 @@
+import { Vector3, Quaternion } from 'three';
+import { StickmanNode } from './StickmanNode';
+import { StickmanSkeleton } from './StickmanSkeleton';
+
+// Name of the opposite-side joint: leftHand <-> rightHand, Arm.L <-> Arm.R, l_foot <-> r_foot.
+// Returns null for names without a side (spine, head, tails...).
+export const getMirrorName = (name: string): string | null => {
+  const swapCase = (from: string, to: string) =>
+    from === from.toUpperCase() ? to.toUpperCase() : from[0] === from[0].toUpperCase() ? to[0].toUpperCase() + to.slice(1) : to;
+
+  if (/left/i.test(name)) return name.replace(/left/i, m => swapCase(m, 'right'));
+  if (/right/i.test(name)) return name.replace(/right/i, m => swapCase(m, 'left'));
+
+  const suffix = name.match(/^(.*[._-])([lLrR])$/);
+  if (suffix) return suffix[1] + ({ l: 'r', r: 'l', L: 'R', R: 'L' } as Record<string, string>)[suffix[2]];
+
+  const prefix = name.match(/^([lLrR])([._-].*)$/);
+  if (prefix) return ({ l: 'r', r: 'l', L: 'R', R: 'L' } as Record<string, string>)[prefix[1]] + prefix[2];
+
+  return null;
+};
+
+// Map every sided joint ID to its counterpart's ID (both directions). Joints without a counterpart are absent.
+export const findMirrorPairs = (root: StickmanNode): Map<string, string> => {
+  const byName = new Map<string, StickmanNode>();
+  const collect = (node: StickmanNode) => {
+    byName.set(node.name, node);
+    node.children.forEach(collect);
+  };
+  collect(root);
+
+  const pairs = new Map<string, string>();
+  byName.forEach((node, name) => {
+    const mirrorName = getMirrorName(name);
+    const counterpart = mirrorName ? byName.get(mirrorName) : undefined;
+    if (counterpart && counterpart !== node) pairs.set(node.id, counterpart.id);
+  });
+  return pairs;
+};
+
+// Reflect a rotation across the YZ plane of its frame (the character's sagittal plane)
+export const reflectRotation = (q: Quaternion): Quaternion => new Quaternion(q.x, -q.y, -q.z, q.w);
+
+// Reflect a world position across the sagittal plane of the skeleton (through the root, normal = root's X axis)
+export const mirrorPosition = (skeleton: StickmanSkeleton, position: Vector3): Vector3 => {
+  const rootRotation = skeleton.root.rotation;
+  const local = position.clone().sub(skeleton.root.position).applyQuaternion(rootRotation.clone().invert());
+  local.x = -local.x;
+  return local.applyQuaternion(rootRotation).add(skeleton.root.position);
+};
+
+// Swap left/right joint pairs and reflect the whole pose across the sagittal plane.
+// Works on local rotations, so each side keeps its own bone lengths when swapped.
+export const mirrorPose = (skeleton: StickmanSkeleton) => {
+  const pairs = findMirrorPairs(skeleton.root);
+  const snapshot = new Map(skeleton.nodes.map(n => [n.id, n.rotation.clone()]));
+
+  skeleton.nodes.forEach(node => {
+    // The root defines the mirror plane and stays as it is
+    if (node === skeleton.root) return;
+    const source = snapshot.get(pairs.get(node.id) || node.id);
+    if (source) node.rotation.copy(reflectRotation(source));
+  });
+
+  skeleton.updateWorldPositions();
+};
+
+// Copy the local rotation of a joint onto its counterpart, reflected (used by symmetric rotate)
+export const mirrorJointRotation = (skeleton: StickmanSkeleton, id: string) => {
+  const counterpartId = findMirrorPairs(skeleton.root).get(id);
+  const node = skeleton.root.findNode(id);
+  const counterpart = counterpartId ? skeleton.root.findNode(counterpartId) : null;
+  if (!node || !counterpart) return;
+  counterpart.rotation.copy(reflectRotation(node.rotation));
+  skeleton.updateWorldPositions();
+};
@@ -0,0 +1,202 @@
+import { Quaternion } from 'three';
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanNode } from './StickmanNode';
+import { StickmanClip } from './StickmanKeyframe';
+import { sampleClip } from './StickmanClipSampler';
+import { advanceClipTime } from './StickmanMarkers';
+import { StickmanRootMotionDelta, emptyRootMotionDelta, getRootMotionDelta } from './StickmanRootMotion';
+
+// Per-joint weights (0..1) by joint name or ID. A joint's weight also applies to the joints below
+// it unless they are listed themselves; branches nothing covers get 0.
+export type StickmanJointMask = Record<string, number>;
+
+// 'override' blends the layer's pose over the pose below it, 'additive' adds the layer's motion
+// (relative to its first keyframe) on top of it
+export type StickmanLayerMode = 'override' | 'additive';
+
+export interface StickmanLayerOptions {
+  clip: string; // Name or ID
+  weight?: number; // Defaults to 1
+  mode?: StickmanLayerMode; // Defaults to 'override'
+  mask?: StickmanJointMask; // Defaults to every joint
+}
+
+export const resolveJointWeights = (skeleton: StickmanSkeleton, weight: number, mask?: StickmanJointMask): Map<string, number> => {
+  const weights = new Map<string, number>();
+  const visit = (node: StickmanNode, inherited: number) => {
+    const own = mask ? (mask[node.id] ?? mask[node.name] ?? inherited) : 1;
+    weights.set(node.id, own * weight);
+    node.children.forEach(child => visit(child, own));
+  };
+  visit(skeleton.root, 0);
+  return weights;
+};
+
+// Move `target` towards `source` joint by joint: rotations slerp, bone lengths and the root
+// position lerp. Sizes follow the root's weight.
+export const blendPose = (target: StickmanSkeleton, source: StickmanSkeleton, weights: Map<string, number>) => {
+  target.nodes.forEach(node => {
+    const match = source.root.findNode(node.id);
+    const w = weights.get(node.id) ?? 0;
+    if (!match || w <= 0) return;
+    node.rotation.slerp(match.rotation, w);
+    node.length += (match.length - node.length) * w;
+    if (node === target.root) node.position.lerp(match.position, w);
+  });
+  const rootWeight = weights.get(target.root.id) ?? 0;
+  target.headRadius += (source.headRadius - target.headRadius) * rootWeight;
+  target.strokeWidth += (source.strokeWidth - target.strokeWidth) * rootWeight;
+  target.updateWorldPositions();
+};
+
+// Add the difference between `source` and `reference` on top of `target`, scaled per joint
+export const addPose = (
+  target: StickmanSkeleton,
+  source: StickmanSkeleton,
+  reference: StickmanSkeleton,
+  weights: Map<string, number>
+) => {
+  const identity = new Quaternion();
+  const delta = new Quaternion();
+  target.nodes.forEach(node => {
+    const match = source.root.findNode(node.id);
+    const rest = reference.root.findNode(node.id);
+    const w = weights.get(node.id) ?? 0;
+    if (!match || !rest || w <= 0) return;
+    delta.copy(rest.rotation).invert().multiply(match.rotation);
+    node.rotation.multiply(identity.clone().slerp(delta, w));
+    node.length += (match.length - rest.length) * w;
+    if (node === target.root) {
+      node.position.addScaledVector(match.position.clone().sub(rest.position), w);
+    }
+  });
+  target.updateWorldPositions();
+};
+
+// A marker crossed during playback
+export interface StickmanAnimationEvent {
+  name: string;
+  time: number; // Marker time within the clip
+  clip: string; // Clip name
+}
+
+interface PlayingClip {
+  clip: StickmanClip;
+  time: number;
+  started: boolean; // Has been advanced since it (re)started, see advanceClipTime
+}
+
+interface PlayingLayer extends PlayingClip {
+  weight: number;
+  mode: StickmanLayerMode;
+  mask?: StickmanJointMask;
+}
+
+// Plays clips of a project by name or ID: a base clip that can crossfade into the next one,
+// with override or additive layers on top. Call update() every frame, then evaluate().
+export class StickmanMixer {
+  clips: StickmanClip[];
+  private base: PlayingClip | null = null;
+  private previous: PlayingClip | null = null; // Clip being faded out
+  private fadeElapsed = 0;
+  private fadeDuration = 0;
+  private layers: PlayingLayer[] = [];
+  // Root motion of the base clip (blended with the clip fading out) during the last update
+  rootMotion: StickmanRootMotionDelta = emptyRootMotionDelta();
+
+  constructor(clips: StickmanClip[]) {
+    this.clips = clips;
+  }
+
+  findClip(ref: string): StickmanClip | null {
+    return this.clips.find(c => c.id === ref) || this.clips.find(c => c.name === ref) || null;
+  }
+
+  get currentClip(): StickmanClip | null {
+    return this.base?.clip || null;
+  }
+
+  get time(): number {
+    return this.base?.time || 0;
+  }
+
+  // Switch the base clip, blending from the current one over `fadeDuration` seconds.
+  // Playing the clip that is already playing does nothing, unless `restart` plays it again from
+  // the start (blending from where it was). Returns false for unknown clips.
+  play(ref: string, fadeDuration = 0, restart = false): boolean {
+    const clip = this.findClip(ref);
+    if (!clip) return false;
+    if (this.base?.clip === clip && !restart) return true;
+
+    this.previous = this.base && fadeDuration > 0 ? this.base : null;
+    this.fadeElapsed = 0;
+    this.fadeDuration = fadeDuration;
+    this.base = { clip, time: 0, started: false };
+    return true;
+  }
+
+  // Layers are applied in order. Layers that keep their clip keep their time.
+  setLayers(layers: StickmanLayerOptions[]) {
+    this.layers = layers.flatMap(options => {
+      const clip = this.findClip(options.clip);
+      if (!clip) return [];
+      const existing = this.layers.find(l => l.clip === clip);
+      return [{
+        clip,
+        time: existing ? existing.time : 0,
+        started: existing ? existing.started : false,
+        weight: options.weight ?? 1,
+        mode: options.mode || 'override',
+        mask: options.mask,
+      }];
+    });
+  }
+
+  // Advance all playing clips. Returns the markers crossed by the base clip and the layers
+  // (not by a clip that is fading out). The root motion of the step is kept in `rootMotion`.
+  // `loop` overrides the loop setting of every clip.
+  update(delta: number, loop?: boolean): StickmanAnimationEvent[] {
+    const events: StickmanAnimationEvent[] = [];
+    const advance = (playing: PlayingClip, report: boolean): StickmanRootMotionDelta => {
+      const from = playing.time;
+      const result = advanceClipTime(playing.clip, from, delta, loop ?? playing.clip.loop !== false, !playing.started);
+      playing.time = result.time;
+      playing.started = true;
+      if (report) result.markers.forEach(m => events.push({ name: m.name, time: m.time, clip: playing.clip.name }));
+      return getRootMotionDelta(playing.clip, from, result.time, result.wraps);
+    };
+    this.rootMotion = this.base ? advance(this.base, true) : emptyRootMotionDelta();
+    if (this.previous) {
+      const fading = advance(this.previous, false);
+      const weight = 1 - Math.min(1, this.fadeElapsed / this.fadeDuration);
+      this.rootMotion.translation.lerp(fading.translation, weight);
+      this.rootMotion.yaw += (fading.yaw - this.rootMotion.yaw) * weight;
+      this.fadeElapsed += delta;
+      if (this.fadeElapsed >= this.fadeDuration) this.previous = null;
+    }
+    this.layers.forEach(layer => advance(layer, true));
+    return events;
+  }
+
+  // Write the mixed pose into `target`. Returns false while there is nothing to play.
+  evaluate(target: StickmanSkeleton): boolean {
+    const pose = this.base && sampleClip(this.base.clip, this.base.time);
+    if (!pose) return false;
+
+    const fading = this.previous && sampleClip(this.previous.clip, this.previous.time);
+    if (fading) blendPose(pose, fading, resolveJointWeights(pose, 1 - this.fadeElapsed / this.fadeDuration));
+
+    this.layers.forEach(layer => {
+      const sample = sampleClip(layer.clip, layer.time);
+      if (!sample || layer.weight <= 0) return;
+      const weights = resolveJointWeights(pose, layer.weight, layer.mask);
+      if (layer.mode === 'additive') addPose(pose, sample, layer.clip.keyframes[0].skeleton, weights);
+      else blendPose(pose, sample, weights);
+    });
+
+    target.copyPose(pose);
+    target.headRadius = pose.headRadius;
+    target.strokeWidth = pose.strokeWidth;
+    return true;
+  }
+}
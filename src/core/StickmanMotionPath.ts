@@ -0,0 +1,34 @@
+import { Vector3 } from 'three';
+import { StickmanClip } from './StickmanKeyframe';
+import { sampleClip } from './StickmanClipSampler';
+import { keysChannel, isWholeKeyframe } from './StickmanChannels';
+
+// Trajectory of one joint across a clip, in the skeleton's space
+export interface StickmanMotionPath {
+  points: [number, number, number][];
+  keys: { keyframeId: string, timestamp: number, position: Vector3 }[];
+}
+
+// Samples the clip at a fixed rate plus at every keyframe, so the polyline passes through the markers
+export const getMotionPath = (clip: StickmanClip, nodeId: string, samplesPerSecond = 30): StickmanMotionPath => {
+  const path: StickmanMotionPath = { points: [], keys: [] };
+  if (clip.keyframes.length === 0) return path;
+
+  const count = Math.max(1, Math.ceil(clip.duration * samplesPerSecond));
+  const times = new Set<number>();
+  for (let i = 0; i <= count; i++) times.add((i / count) * clip.duration);
+  clip.keyframes.forEach(kf => times.add(kf.timestamp));
+
+  Array.from(times).sort((a, b) => a - b).forEach(time => {
+    const node = sampleClip(clip, time)?.root.findNode(nodeId);
+    if (node) path.points.push([node.position.x, node.position.y, node.position.z]);
+  });
+
+  // Markers only for the keyframes that key this joint
+  clip.keyframes.filter(kf => keysChannel(kf, nodeId)).forEach(kf => {
+    const node = (isWholeKeyframe(kf) ? kf.skeleton : sampleClip(clip, kf.timestamp))?.root.findNode(nodeId);
+    if (node) path.keys.push({ keyframeId: kf.id, timestamp: kf.timestamp, position: node.position.clone() });
+  });
+
+  return path;
+};
@@ -1,16 +1,49 @@
-import { Vector3 } from 'three';
+import { Vector3, Quaternion } from 'three';
 import { v4 as uuidv4 } from 'uuid';
 
+export type StickmanHeadShape = 'circle' | 'square';
+
+// Per-joint look. Everything is optional and falls back to the skeleton-wide settings.
+// color, strokeWidth and hidden apply to the joint and to the bone leading to it.
+export interface StickmanNodeStyle {
+  color?: string;
+  strokeWidth?: number;
+  hidden?: boolean;
+  // Draw this joint as a head sized by the skeleton's headRadius. Joints named 'head' default to 'circle'.
+  headShape?: StickmanHeadShape;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseNodeStyle = (data: any): StickmanNodeStyle | undefined => {
+  if (!data || typeof data !== 'object') return undefined;
+  const style: StickmanNodeStyle = {};
+  if (typeof data.color === 'string') style.color = data.color;
+  if (typeof data.strokeWidth === 'number') style.strokeWidth = data.strokeWidth;
+  if (data.hidden === true) style.hidden = true;
+  if (data.headShape === 'circle' || data.headShape === 'square') style.headShape = data.headShape;
+  return Object.keys(style).length > 0 ? style : undefined;
+};
+
 export class StickmanNode {
   id: string;
   name: string;
+  // World position. For every node except the root this is derived through FK
+  // (see StickmanSkeleton.updateWorldPositions).
   position: Vector3;
+  // Local rotation relative to the parent's world frame. The bone leading to
+  // this node points along the node's local +Y axis.
+  rotation: Quaternion;
+  // Length of the bone from the parent to this node (0 for the root)
+  length: number;
+  style?: StickmanNodeStyle;
   children: StickmanNode[];
 
-  constructor(name: string, position: Vector3, id?: string) {
+  constructor(name: string, position: Vector3, id?: string, rotation?: Quaternion, length: number = 0) {
     this.id = id || uuidv4();
     this.name = name;
     this.position = position;
+    this.rotation = rotation || new Quaternion();
+    this.length = length;
     this.children = [];
   }
 
@@ -20,11 +53,17 @@ export class StickmanNode {
 
   // Clone this node and its children recursively
   clone(): StickmanNode {
-    const newNode = new StickmanNode(this.name, this.position.clone(), this.id);
+    const newNode = new StickmanNode(this.name, this.position.clone(), this.id, this.rotation.clone(), this.length);
+    if (this.style) newNode.style = { ...this.style };
     newNode.children = this.children.map((child) => child.clone());
     return newNode;
   }
 
+  // Head shape to draw for this joint, or null for a regular joint
+  get headShape(): StickmanHeadShape | null {
+    return this.style?.headShape || (this.name === 'head' ? 'circle' : null);
+  }
+
   // Find a node by ID in this subtree
   findNode(id: string): StickmanNode | null {
     if (this.id === id) return this;
@@ -34,4 +73,14 @@ export class StickmanNode {
     }
     return null;
   }
+
+  // Find the direct parent of a node by ID in this subtree
+  findParent(id: string): StickmanNode | null {
+    for (const child of this.children) {
+      if (child.id === id) return this;
+      const found = child.findParent(id);
+      if (found) return found;
+    }
+    return null;
+  }
 }
@@ -0,0 +1,70 @@
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanClip, StickmanKeyframe } from './StickmanKeyframe';
+import { sampleClip } from './StickmanClipSampler';
+import { KEY_TIME_TOLERANCE } from './StickmanTimeline';
+import { isWholeKeyframe } from './StickmanChannels';
+
+// 'keyframes' ghosts the neighbouring keyframes, 'frames' samples the clip every `step` seconds
+export type StickmanOnionSkinMode = 'keyframes' | 'frames';
+
+export interface StickmanOnionSkinSettings {
+  enabled: boolean;
+  mode: StickmanOnionSkinMode;
+  count: number; // Ghosts on each side of the playhead
+  step: number; // Seconds between ghosts in 'frames' mode
+  beforeColor: string;
+  afterColor: string;
+  opacity: number; // Opacity of the nearest ghost
+  falloff: number; // Each further ghost is this much fainter (multiplier)
+}
+
+export const DEFAULT_ONION_SKIN: StickmanOnionSkinSettings = {
+  enabled: false,
+  mode: 'keyframes',
+  count: 2,
+  step: 0.1,
+  beforeColor: '#f43f5e',
+  afterColor: '#22c55e',
+  opacity: 0.4,
+  falloff: 0.6,
+};
+
+export interface StickmanOnionGhost {
+  skeleton: StickmanSkeleton;
+  offset: number; // -1 is the nearest ghost before the playhead, 1 the nearest after
+  color: string;
+  opacity: number;
+}
+
+// Poses to draw around the playhead. Whole-pose keyframe skeletons are returned as they are (read only);
+// keyframes that key only some channels are ghosted with the full pose at their time.
+export const getOnionGhosts = (clip: StickmanClip, time: number, settings: StickmanOnionSkinSettings): StickmanOnionGhost[] => {
+  const ghost = (skeleton: StickmanSkeleton, offset: number): StickmanOnionGhost => ({
+    skeleton,
+    offset,
+    color: offset < 0 ? settings.beforeColor : settings.afterColor,
+    opacity: settings.opacity * Math.pow(settings.falloff, Math.abs(offset) - 1),
+  });
+
+  if (settings.mode === 'keyframes') {
+    const before = clip.keyframes.filter(kf => kf.timestamp < time - KEY_TIME_TOLERANCE).slice(-settings.count).reverse();
+    const after = clip.keyframes.filter(kf => kf.timestamp > time + KEY_TIME_TOLERANCE).slice(0, settings.count);
+    const pose = (kf: StickmanKeyframe) => isWholeKeyframe(kf) ? kf.skeleton : sampleClip(clip, kf.timestamp)!;
+    return [
+      ...before.map((kf, i) => ghost(pose(kf), -(i + 1))),
+      ...after.map((kf, i) => ghost(pose(kf), i + 1)),
+    ];
+  }
+
+  const ghosts: StickmanOnionGhost[] = [];
+  if (!(settings.step > 0)) return ghosts;
+  for (let i = 1; i <= settings.count; i++) {
+    ([-i, i]).forEach(offset => {
+      const t = time + offset * settings.step;
+      if (t < 0 || t > clip.duration) return;
+      const skeleton = sampleClip(clip, t);
+      if (skeleton) ghosts.push(ghost(skeleton, offset));
+    });
+  }
+  return ghosts;
+};
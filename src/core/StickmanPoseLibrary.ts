@@ -0,0 +1,127 @@
+import { Quaternion } from 'three';
+import { v4 as uuidv4 } from 'uuid';
+import { StickmanNode } from './StickmanNode';
+import { StickmanSkeleton } from './StickmanSkeleton';
+
+// Named poses that can be applied to any skeleton with the same joints. A pose stores local joint
+// rotations, so it keeps the bone lengths of the skeleton it is applied to. Joints are matched by
+// ID, then by name, so poses carry over to other actors and projects.
+
+export const POSE_LIBRARY_FORMAT = 'stickman-poses';
+export const POSE_THUMBNAIL_SIZE = 64;
+
+export interface StickmanPoseJoint {
+  id: string;
+  name: string;
+  rotation: [number, number, number, number]; // Local rotation (x, y, z, w)
+}
+
+export interface StickmanPose {
+  id: string;
+  name: string;
+  joints: StickmanPoseJoint[];
+  // Height of the root above the lowest joint (crouches, jumps). Only stored when the root is in
+  // the pose; its place on the floor always comes from the skeleton the pose is applied to.
+  rootHeight?: number;
+  // SVG path data of the whole figure seen from the front, in a POSE_THUMBNAIL_SIZE square
+  thumbnail: string;
+}
+
+const lowestY = (skeleton: StickmanSkeleton) => Math.min(...skeleton.nodes.map(n => n.position.y));
+
+// Front view of every bone, scaled to fit the thumbnail square with its feet at the bottom
+export const getPoseThumbnail = (skeleton: StickmanSkeleton): string => {
+  const nodes = skeleton.nodes;
+  const xs = nodes.map(n => n.position.x);
+  const ys = nodes.map(n => n.position.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const margin = 4;
+  const scale = (POSE_THUMBNAIL_SIZE - margin * 2) / Math.max(maxX - minX, maxY - minY, 1e-6);
+  const offsetX = (POSE_THUMBNAIL_SIZE - (maxX - minX) * scale) / 2;
+  const point = (node: StickmanNode) =>
+    `${+(offsetX + (node.position.x - minX) * scale).toFixed(1)} ${+(POSE_THUMBNAIL_SIZE - margin - (node.position.y - minY) * scale).toFixed(1)}`;
+
+  const segments: string[] = [];
+  const traverse = (node: StickmanNode) => {
+    node.children.forEach(child => {
+      if (!child.style?.hidden) segments.push(`M${point(node)}L${point(child)}`);
+      traverse(child);
+    });
+  };
+  traverse(skeleton.root);
+  return segments.join('');
+};
+
+// Capture the current pose of `skeleton`, or only of the joints in `jointIds`
+export const createPose = (skeleton: StickmanSkeleton, name: string, jointIds?: string[]): StickmanPose => {
+  const nodes = jointIds ? skeleton.nodes.filter(n => jointIds.includes(n.id)) : skeleton.nodes;
+  const pose: StickmanPose = {
+    id: uuidv4(),
+    name,
+    joints: nodes.map(n => ({ id: n.id, name: n.name, rotation: n.rotation.toArray() as [number, number, number, number] })),
+    thumbnail: getPoseThumbnail(skeleton),
+  };
+  if (nodes.includes(skeleton.root)) pose.rootHeight = skeleton.root.position.y - lowestY(skeleton);
+  return pose;
+};
+
+// The joint of `skeleton` each pose joint drives
+const matchJoints = (pose: StickmanPose, skeleton: StickmanSkeleton): [StickmanNode, StickmanPoseJoint][] => {
+  const nodes = skeleton.nodes;
+  const matched: [StickmanNode, StickmanPoseJoint][] = [];
+  pose.joints.forEach(joint => {
+    const node = nodes.find(n => n.id === joint.id) || nodes.find(n => n.name === joint.name);
+    if (node && !matched.some(([n]) => n === node)) matched.push([node, joint]);
+  });
+  return matched;
+};
+
+// Blend `skeleton` towards the pose (1 applies it fully). Returns the IDs of the joints it drove.
+export const applyPose = (skeleton: StickmanSkeleton, pose: StickmanPose, blend = 1): string[] => {
+  const weight = Math.max(0, Math.min(1, blend));
+  const matched = matchJoints(pose, skeleton);
+  if (matched.length === 0 || weight === 0) return matched.map(([node]) => node.id);
+
+  const floor = lowestY(skeleton);
+  matched.forEach(([node, joint]) => {
+    node.rotation.slerp(new Quaternion().fromArray(joint.rotation).normalize(), weight);
+  });
+  skeleton.updateWorldPositions();
+
+  // Rest the root at the stored height above where the figure stood
+  if (pose.rootHeight !== undefined && matched.some(([node]) => node === skeleton.root)) {
+    skeleton.root.position.y += (floor + pose.rootHeight - skeleton.root.position.y) * weight;
+    skeleton.updateWorldPositions();
+  }
+  skeleton.applyConstraints();
+  return matched.map(([node]) => node.id);
+};
+
+export const serializePoseLibrary = (poses: StickmanPose[]): string =>
+  JSON.stringify({ format: POSE_LIBRARY_FORMAT, version: 1, poses }, null, 2);
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parsePose = (data: any): StickmanPose | null => {
+  if (!data || !Array.isArray(data.joints)) return null;
+  return {
+    id: typeof data.id === 'string' ? data.id : uuidv4(),
+    name: typeof data.name === 'string' ? data.name : 'Pose',
+    joints: data.joints
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .filter((j: any) => j && Array.isArray(j.rotation) && j.rotation.length === 4)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .map((j: any) => ({ id: String(j.id ?? ''), name: String(j.name ?? ''), rotation: j.rotation.map(Number) })),
+    rootHeight: typeof data.rootHeight === 'number' ? data.rootHeight : undefined,
+    thumbnail: typeof data.thumbnail === 'string' ? data.thumbnail : '',
+  };
+};
+
+// Poses of a library file. Throws when the file is not a pose library.
+export const parsePoseLibrary = (json: string): StickmanPose[] => {
+  const data = JSON.parse(json);
+  if (!data || data.format !== POSE_LIBRARY_FORMAT || !Array.isArray(data.poses)) {
+    throw new Error('Not a pose library file');
+  }
+  return data.poses.map(parsePose).filter((p: StickmanPose | null): p is StickmanPose => !!p);
+};
@@ -0,0 +1,105 @@
+import { Vector3, Quaternion } from 'three';
+import { StickmanSkeleton } from './StickmanSkeleton';
+import { StickmanIKChain } from './StickmanRig';
+
+// --- IK / FK MATH HELPERS (Ported from Dart) ---
+
+// IK: Solves 2-Bone IK (Hip -> Knee -> Foot) and returns the new joint position.
+// targetPos is clamped in place if it is out of reach. The pole (world space) picks the bend
+// direction; without one the plane through the current joint position is kept.
+export const solveTwoBoneIK = (
+  rootPos: Vector3,
+  jointPos: Vector3,
+  targetPos: Vector3,
+  len1: number,
+  len2: number,
+  pole?: Vector3
+): Vector3 => {
+  // 1. Calculate direction from Root to Target
+  const direction = new Vector3().subVectors(targetPos, rootPos);
+  let distance = direction.length();
+
+  // 2. Clamp target if out of reach
+  if (distance > (len1 + len2)) {
+    direction.normalize();
+    targetPos.copy(rootPos).add(direction.multiplyScalar(len1 + len2));
+    distance = len1 + len2;
+  }
+
+  // 3. Law of Cosines to find the angle (alpha) for the joint
+  const cosAlpha = (len1 * len1 + distance * distance - len2 * len2) / (2 * len1 * distance);
+  const clampedCos = Math.max(-1, Math.min(1, cosAlpha));
+  const alpha = Math.acos(clampedCos);
+
+  // 4. Determine Bending Plane (Pole Vector)
+  const armAxis = direction.clone().normalize();
+  const bendNormal = new Vector3();
+  if (pole) {
+    bendNormal.crossVectors(armAxis, pole);
+    if (bendNormal.length() < 0.001) bendNormal.crossVectors(armAxis, new Vector3(1, 0, 0));
+  } else {
+    // Fallback: use current joint position to determine plane
+    const currentLimb = new Vector3().subVectors(jointPos, rootPos);
+    bendNormal.crossVectors(armAxis, currentLimb);
+  }
+
+  if (bendNormal.length() < 0.001) bendNormal.set(1, 0, 0);
+  bendNormal.normalize();
+
+  // 5. Rotate the joint position
+  const q = new Quaternion().setFromAxisAngle(bendNormal, alpha);
+  const rotatedLimb = armAxis.clone().applyQuaternion(q).multiplyScalar(len1);
+
+  return rootPos.clone().add(rotatedLimb);
+};
+
+// Move the effector of an IK chain towards target, bending the middle joint.
+// The solution is applied as bone rotations so both lengths are preserved.
+export const applyIKChain = (skeleton: StickmanSkeleton, chain: StickmanIKChain, target: Vector3) => {
+  const root = skeleton.root.findNode(chain.rootId);
+  const joint = skeleton.root.findNode(chain.jointId);
+  const effector = skeleton.root.findNode(chain.effectorId);
+  if (!root || !joint || !effector) return;
+
+  // Poles are authored in the character's frame, so they follow the skeleton's root rotation
+  const pole = chain.pole
+    ? new Vector3().fromArray(chain.pole).applyQuaternion(skeleton.root.rotation)
+    : undefined;
+
+  const targetPos = target.clone();
+  const jointPos = solveTwoBoneIK(root.position, joint.position, targetPos, joint.length, effector.length, pole);
+
+  skeleton.aimNode(joint.id, jointPos);
+  skeleton.aimNode(effector.id, targetPos);
+};
+
+// --- SMART POSING ---
+// Drag a joint to a world position, dispatching on the joint's role in the skeleton's rig.
+// Joint limits of the rig are enforced on the result.
+export const poseNode = (skeleton: StickmanSkeleton, id: string, targetWorldPosition: Vector3) => {
+  const node = skeleton.root.findNode(id);
+  if (!node) return;
+
+  const { rig } = skeleton;
+  const role = id === skeleton.root.id ? 'root' : (rig.roles[id] || 'fk');
+
+  if (role === 'root' || id === rig.rootId) {
+    // Move entire skeleton (children follow through FK)
+    const delta = new Vector3().subVectors(targetWorldPosition, node.position);
+    skeleton.root.position.add(delta);
+    skeleton.updateWorldPositions();
+  } else if (role === 'ikEffector') {
+    // Hand/Foot uses IK
+    const chain = rig.chains.find(c => c.effectorId === id);
+    if (chain) {
+      applyIKChain(skeleton, chain, targetWorldPosition);
+    } else {
+      skeleton.aimNode(id, targetWorldPosition);
+    }
+  } else {
+    // FK: swing the bone about its parent. The bone length is fixed by construction.
+    skeleton.aimNode(id, targetWorldPosition);
+  }
+
+  skeleton.applyConstraints();
+};
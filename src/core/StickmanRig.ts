@@ -0,0 +1,144 @@
+import { StickmanNode } from './StickmanNode';
+import { StickmanJointConstraint, parseConstraint } from './StickmanConstraints';
+
+// How a joint reacts when it is dragged:
+// - 'root' translates the whole skeleton
+// - 'fk' rotates the bone leading to the joint about its parent
+// - 'ikJoint' is the middle joint of an IK chain (posed like 'fk' when dragged directly)
+// - 'ikEffector' drags the end of an IK chain and solves the chain with two-bone IK
+export type StickmanJointRole = 'root' | 'fk' | 'ikJoint' | 'ikEffector';
+
+export interface StickmanIKChain {
+  rootId: string; // e.g. hip
+  jointId: string; // e.g. knee
+  effectorId: string; // e.g. foot
+  // Direction the middle joint bends towards, in the character's frame (rotates with the root).
+  // Without a pole the current bend plane is kept.
+  pole?: [number, number, number];
+}
+
+export interface StickmanRig {
+  rootId: string;
+  roles: Record<string, StickmanJointRole>;
+  chains: StickmanIKChain[];
+  // Angle limits keyed by joint ID (see StickmanConstraints)
+  constraints: Record<string, StickmanJointConstraint>;
+}
+
+// Pole vectors for the joint names used by the default skeleton and legacy files
+const inferPole = (jointName: string): [number, number, number] | null => {
+  const name = jointName.toLowerCase();
+  if (name.includes('knee')) return [0, 0, -1]; // Knees bend backward
+  if (name.includes('elbow')) return [0, 0, 1]; // Elbows bend forward/out
+  return null;
+};
+
+// Build a rig from the joint names of a tree. Every joint under a knee or elbow becomes the effector
+// of a two-bone IK chain; every other joint is posed with FK. Unknown joints (tails, extra spine
+// segments, props) therefore always get a sensible default.
+export const createRig = (root: StickmanNode): StickmanRig => {
+  const rig: StickmanRig = { rootId: root.id, roles: { [root.id]: 'root' }, chains: [], constraints: {} };
+
+  const traverse = (node: StickmanNode, parent: StickmanNode | null) => {
+    node.children.forEach(child => {
+      if (!rig.roles[child.id]) rig.roles[child.id] = 'fk';
+
+      const pole = inferPole(node.name);
+      if (parent && pole) {
+        rig.roles[node.id] = 'ikJoint';
+        rig.roles[child.id] = 'ikEffector';
+        rig.chains.push({ rootId: parent.id, jointId: node.id, effectorId: child.id, pole });
+      }
+      traverse(child, node);
+    });
+  };
+  traverse(root, null);
+
+  return rig;
+};
+
+export const cloneRig = (rig: StickmanRig): StickmanRig => ({
+  rootId: rig.rootId,
+  roles: { ...rig.roles },
+  chains: rig.chains.map(chain => ({ ...chain, pole: chain.pole ? [...chain.pole] : undefined })),
+  constraints: Object.fromEntries(Object.entries(rig.constraints).map(([id, c]) => [
+    id, { ...c, axis: c.axis ? [...c.axis] : undefined }
+  ])),
+});
+
+// Drop chains whose joints are missing or no longer form a parent -> joint -> effector line, drop
+// roles of missing joints and give new joints the 'fk' role. Used after topology edits.
+export const validateRig = (rig: StickmanRig, root: StickmanNode): StickmanRig => {
+  const chains = rig.chains.filter(chain => {
+    const joint = root.findNode(chain.jointId);
+    const effector = root.findNode(chain.effectorId);
+    return !!joint && !!effector
+      && root.findParent(chain.effectorId) === joint
+      && root.findParent(chain.jointId)?.id === chain.rootId;
+  });
+
+  const roles: Record<string, StickmanJointRole> = {};
+  const traverse = (node: StickmanNode) => {
+    const role = rig.roles[node.id] || 'fk';
+    // IK roles only make sense while their chain still exists
+    if (role === 'ikEffector' && !chains.some(c => c.effectorId === node.id)) roles[node.id] = 'fk';
+    else if (role === 'ikJoint' && !chains.some(c => c.jointId === node.id)) roles[node.id] = 'fk';
+    else roles[node.id] = role;
+    node.children.forEach(traverse);
+  };
+  traverse(root);
+  roles[root.id] = 'root';
+
+  return {
+    rootId: root.findNode(rig.rootId) ? rig.rootId : root.id,
+    roles,
+    chains,
+    constraints: Object.fromEntries(Object.entries(rig.constraints).filter(([id]) => !!root.findNode(id))),
+  };
+};
+
+// Read a rig from SA3 data. Entries that reference joints missing from the tree are dropped and
+// joints without a role fall back to what createRig would infer.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseRig = (data: any, root: StickmanNode): StickmanRig => {
+  const inferred = createRig(root);
+  if (!data || typeof data !== 'object') return inferred;
+
+  const exists = (id: unknown): id is string => typeof id === 'string' && !!root.findNode(id);
+  const roles: Record<string, StickmanJointRole> = { ...inferred.roles };
+  const validRoles: StickmanJointRole[] = ['root', 'fk', 'ikJoint', 'ikEffector'];
+  if (data.roles && typeof data.roles === 'object') {
+    Object.entries(data.roles).forEach(([id, role]) => {
+      if (exists(id) && validRoles.includes(role as StickmanJointRole)) {
+        roles[id] = role as StickmanJointRole;
+      }
+    });
+  }
+
+  const chains: StickmanIKChain[] = Array.isArray(data.chains)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ? data.chains.filter((c: any) => c && exists(c.rootId) && exists(c.jointId) && exists(c.effectorId))
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .map((c: any) => ({
+        rootId: c.rootId,
+        jointId: c.jointId,
+        effectorId: c.effectorId,
+        pole: Array.isArray(c.pole) && c.pole.length === 3 ? c.pole.map(Number) : undefined,
+      }))
+    : inferred.chains;
+
+  const constraints: Record<string, StickmanJointConstraint> = {};
+  if (data.constraints && typeof data.constraints === 'object') {
+    Object.entries(data.constraints).forEach(([id, c]) => {
+      const constraint = parseConstraint(c);
+      if (exists(id) && constraint) constraints[id] = constraint;
+    });
+  }
+
+  return {
+    rootId: exists(data.rootId) ? data.rootId : inferred.rootId,
+    roles,
+    chains,
+    constraints,
+  };
+};
@@ -0,0 +1,136 @@
+import { Quaternion, Vector3 } from 'three';
+import { StickmanClip, StickmanRootMotionSample } from './StickmanKeyframe';
+import { sampleClip } from './StickmanClipSampler';
+import { keysChannel } from './StickmanChannels';
+
+// Root motion: the horizontal travel (and optionally the turning) of the root joint (the hip)
+// taken out of a clip's keyframes into a track on the clip, so the clip plays in place and the
+// game moves the character instead.
+
+export const ROOT_MOTION_SAMPLE_RATE = 30;
+
+const UP = new Vector3(0, 1, 0);
+
+// Heading of a rotation around the vertical axis (the twist part of a swing-twist split)
+export const getYaw = (rotation: Quaternion): number => 2 * Math.atan2(rotation.y, rotation.w);
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// Track value at a time, relative to the start of the clip
+export const sampleRootMotion = (clip: StickmanClip, time: number): StickmanRootMotionSample => {
+  const track = clip.rootMotion || [];
+  if (track.length === 0) return { time, x: 0, z: 0, yaw: 0 };
+  if (time <= track[0].time) return { ...track[0], time };
+  const last = track[track.length - 1];
+  if (time >= last.time) return { ...last, time };
+
+  const index = track.findIndex(s => s.time > time);
+  const a = track[index - 1];
+  const b = track[index];
+  const t = b.time - a.time > 0 ? (time - a.time) / (b.time - a.time) : 0;
+  return { time, x: a.x + (b.x - a.x) * t, z: a.z + (b.z - a.z) * t, yaw: a.yaw + (b.yaw - a.yaw) * t };
+};
+
+// Move `clip` out of its root joint into a root-motion track. With `withYaw` the root's turning is
+// taken out as well. Clips that already have a track are returned as they are.
+export const extractRootMotion = (clip: StickmanClip, withYaw = false, sampleRate = ROOT_MOTION_SAMPLE_RATE): StickmanClip => {
+  if (clip.rootMotion || clip.keyframes.length === 0) return clip;
+
+  // Sample uniformly plus at every keyframe, so the keys line up with the track exactly
+  const count = Math.max(1, Math.ceil(clip.duration * sampleRate));
+  const times = new Set<number>();
+  for (let i = 0; i <= count; i++) times.add((i / count) * clip.duration);
+  clip.keyframes.forEach(kf => times.add(kf.timestamp));
+
+  const track: StickmanRootMotionSample[] = [];
+  let start: Vector3 | null = null;
+  let yaw = 0;
+  let previousYaw = 0;
+  Array.from(times).sort((a, b) => a - b).forEach(time => {
+    const root = sampleClip(clip, time)!.root;
+    const heading = getYaw(root.rotation);
+    if (!start) {
+      start = root.position.clone();
+      previousYaw = heading;
+    }
+    // Unwrapped, so a full turn keeps counting instead of jumping back
+    yaw += wrapAngle(heading - previousYaw);
+    previousYaw = heading;
+    track.push({ time, x: root.position.x - start.x, z: root.position.z - start.z, yaw: withYaw ? yaw : 0 });
+  });
+
+  const tracked = { ...clip, rootMotion: track };
+  return { ...tracked, keyframes: clip.keyframes.map(kf => {
+    const root = kf.skeleton.root;
+    if (!keysChannel(kf, root.id)) return kf;
+    const offset = sampleRootMotion(tracked, kf.timestamp);
+    const skeleton = kf.skeleton.clone();
+    skeleton.root.position.x -= offset.x;
+    skeleton.root.position.z -= offset.z;
+    skeleton.root.rotation.premultiply(new Quaternion().setFromAxisAngle(UP, -offset.yaw));
+    skeleton.updateWorldPositions();
+    return { ...kf, skeleton };
+  }) };
+};
+
+// Put a root-motion track back into the keyframes and drop it
+export const bakeRootMotion = (clip: StickmanClip): StickmanClip => {
+  if (!clip.rootMotion) return clip;
+  const baked = { ...clip };
+  delete baked.rootMotion;
+  return { ...baked, keyframes: clip.keyframes.map(kf => {
+    const root = kf.skeleton.root;
+    if (!keysChannel(kf, root.id)) return kf;
+    const offset = sampleRootMotion(clip, kf.timestamp);
+    const skeleton = kf.skeleton.clone();
+    skeleton.root.position.x += offset.x;
+    skeleton.root.position.z += offset.z;
+    skeleton.root.rotation.premultiply(new Quaternion().setFromAxisAngle(UP, offset.yaw));
+    skeleton.updateWorldPositions();
+    return { ...kf, skeleton };
+  }) };
+};
+
+// Root movement over some time, in the character's frame at its start: `translation` is relative
+// to the heading the character had, `yaw` is how much it turned (radians, around +Y)
+export interface StickmanRootMotionDelta {
+  translation: Vector3;
+  yaw: number;
+}
+
+export const emptyRootMotionDelta = (): StickmanRootMotionDelta => ({ translation: new Vector3(), yaw: 0 });
+
+// Movement from one play position to another; `wraps` is how many times playback looped in between
+export const getRootMotionDelta = (clip: StickmanClip, from: number, to: number, wraps = 0): StickmanRootMotionDelta => {
+  const result = emptyRootMotionDelta();
+  if (!clip.rootMotion) return result;
+
+  // Append the movement between two times of a single play
+  const append = (a: number, b: number) => {
+    const start = sampleRootMotion(clip, a);
+    const end = sampleRootMotion(clip, b);
+    const step = new Vector3(end.x - start.x, 0, end.z - start.z)
+      .applyAxisAngle(UP, -start.yaw) // Into the clip's heading at `a`...
+      .applyAxisAngle(UP, result.yaw); // ...then after what this delta turned so far
+    result.translation.add(step);
+    result.yaw += end.yaw - start.yaw;
+  };
+
+  if (wraps === 0) {
+    append(from, to);
+  } else {
+    append(from, clip.duration);
+    for (let i = 1; i < wraps; i++) append(0, clip.duration);
+    append(0, to);
+  }
+  return result;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseRootMotion = (data: any): StickmanRootMotionSample[] | undefined => {
+  if (!Array.isArray(data) || data.length === 0) return undefined;
+  return data
+    .filter(s => s && typeof s.time === 'number')
+    .map(s => ({ time: s.time, x: Number(s.x) || 0, z: Number(s.z) || 0, yaw: Number(s.yaw) || 0 }))
+    .sort((a, b) => a.time - b.time);
+};
@@ -1,20 +1,43 @@
-import { Vector3 } from 'three';
+import { Vector3, Quaternion } from 'three';
 import { StickmanNode } from './StickmanNode';
+import { StickmanRig, createRig, cloneRig, validateRig } from './StickmanRig';
+import { constrainChildren } from './StickmanConstraints';
+
+// Bones point along the local +Y axis of the node they lead to
+const BONE_AXIS = new Vector3(0, 1, 0);
+const EPSILON = 1e-6;
+
+// 'rotation' slerps each bone about its parent and keeps bone lengths,
+// 'position' linearly interpolates world positions (bones may shrink mid-swing)
+export type StickmanInterpolationMode = 'rotation' | 'position';
+
+// Cubic Hermite basis on scalars. m1/m2 are the Catmull-Rom tangents scaled by the segment timing.
+const hermite = (p0: number, p1: number, p2: number, p3: number, t: number, s1: number, s2: number): number => {
+  const m1 = (p2 - p0) * s1;
+  const m2 = (p3 - p1) * s2;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * p1 + (t3 - 2 * t2 + t) * m1 + (-2 * t3 + 3 * t2) * p2 + (t3 - t2) * m2;
+};
 
 export class StickmanSkeleton {
   root: StickmanNode;
   headRadius: number;
   strokeWidth: number;
+  // Joint roles, IK chains and poles used by smart posing. Inferred from joint names when omitted.
+  rig: StickmanRig;
 
   // INCREASED DEFAULT SIZES to fix "too small/thin"
-  constructor(root?: StickmanNode, headRadius: number = 0.35, strokeWidth: number = 0.1) {
+  constructor(root?: StickmanNode, headRadius: number = 0.35, strokeWidth: number = 0.1, rig?: StickmanRig) {
     if (root) {
       this.root = root;
     } else {
       this.root = this.createDefaultSkeleton();
+      this.updateLocalTransforms();
     }
     this.headRadius = headRadius;
     this.strokeWidth = strokeWidth;
+    this.rig = rig || createRig(this.root);
   }
 
   get nodes(): StickmanNode[] {
@@ -68,18 +91,107 @@ export class StickmanSkeleton {
   }
 
   clone(): StickmanSkeleton {
-    return new StickmanSkeleton(this.root.clone(), this.headRadius, this.strokeWidth);
+    return new StickmanSkeleton(this.root.clone(), this.headRadius, this.strokeWidth, cloneRig(this.rig));
   }
 
-  lerp(target: StickmanSkeleton, alpha: number): StickmanSkeleton {
+  lerp(target: StickmanSkeleton, alpha: number, mode: StickmanInterpolationMode = 'rotation'): StickmanSkeleton {
     const newSkeleton = this.clone();
     newSkeleton.headRadius = this.headRadius + (target.headRadius - this.headRadius) * alpha;
     newSkeleton.strokeWidth = this.strokeWidth + (target.strokeWidth - this.strokeWidth) * alpha;
 
-    this._lerpNode(newSkeleton.root, target.root, alpha);
+    if (mode === 'position') {
+        this._lerpNode(newSkeleton.root, target.root, alpha);
+        newSkeleton.updateLocalTransforms();
+    } else {
+        this._slerpNodes(newSkeleton, target, alpha);
+        newSkeleton.updateWorldPositions();
+    }
+    return newSkeleton;
+  }
+
+  // Cubic Hermite interpolation from this pose towards `to`, using Catmull-Rom tangents taken from
+  // the neighbouring poses `prev` and `next` (pass this/to again at the ends of a clip).
+  // tangentScales compensate uneven keyframe spacing: [(t2-t1)/(t2-t0), (t2-t1)/(t3-t1)].
+  spline(
+    prev: StickmanSkeleton,
+    to: StickmanSkeleton,
+    next: StickmanSkeleton,
+    alpha: number,
+    tangentScales: [number, number] = [0.5, 0.5],
+    mode: StickmanInterpolationMode = 'rotation'
+  ): StickmanSkeleton {
+    const newSkeleton = this.clone();
+    newSkeleton.headRadius = this.headRadius + (to.headRadius - this.headRadius) * alpha;
+    newSkeleton.strokeWidth = this.strokeWidth + (to.strokeWidth - this.strokeWidth) * alpha;
+
+    const [s1, s2] = tangentScales;
+    const prevNodes = new Map(prev.nodes.map(n => [n.id, n]));
+    const toNodes = new Map(to.nodes.map(n => [n.id, n]));
+    const nextNodes = new Map(next.nodes.map(n => [n.id, n]));
+    const curveVector = (v0: Vector3, v1: Vector3, v2: Vector3, v3: Vector3, out: Vector3) => out.set(
+        hermite(v0.x, v1.x, v2.x, v3.x, alpha, s1, s2),
+        hermite(v0.y, v1.y, v2.y, v3.y, alpha, s1, s2),
+        hermite(v0.z, v1.z, v2.z, v3.z, alpha, s1, s2)
+    );
+
+    newSkeleton.nodes.forEach(node => {
+        const p2 = toNodes.get(node.id);
+        if (!p2) return;
+        // Missing neighbours fall back to the segment ends (zero-velocity tangent on that side)
+        const p0 = prevNodes.get(node.id) || node;
+        const p3 = nextNodes.get(node.id) || p2;
+
+        if (mode === 'position') {
+            curveVector(p0.position, node.position.clone(), p2.position, p3.position, node.position);
+            return;
+        }
+
+        if (node === newSkeleton.root) {
+            curveVector(p0.position, node.position.clone(), p2.position, p3.position, node.position);
+        }
+        node.length = Math.max(0, hermite(p0.length, node.length, p2.length, p3.length, alpha, s1, s2));
+
+        // Spline the quaternion components in a consistent hemisphere, then renormalize
+        const q1 = node.rotation.clone();
+        const q0 = p0.rotation.clone();
+        const q2 = p2.rotation.clone();
+        const q3 = p3.rotation.clone();
+        if (q0.dot(q1) < 0) q0.set(-q0.x, -q0.y, -q0.z, -q0.w);
+        if (q2.dot(q1) < 0) q2.set(-q2.x, -q2.y, -q2.z, -q2.w);
+        if (q3.dot(q2) < 0) q3.set(-q3.x, -q3.y, -q3.z, -q3.w);
+        node.rotation.set(
+            hermite(q0.x, q1.x, q2.x, q3.x, alpha, s1, s2),
+            hermite(q0.y, q1.y, q2.y, q3.y, alpha, s1, s2),
+            hermite(q0.z, q1.z, q2.z, q3.z, alpha, s1, s2),
+            hermite(q0.w, q1.w, q2.w, q3.w, alpha, s1, s2)
+        ).normalize();
+    });
+
+    if (mode === 'position') {
+        newSkeleton.updateLocalTransforms();
+    } else {
+        newSkeleton.updateWorldPositions();
+    }
     return newSkeleton;
   }
 
+  // Interpolate local rotations and bone lengths, then let FK rebuild the positions.
+  // Only the root position is interpolated linearly.
+  private _slerpNodes(current: StickmanSkeleton, target: StickmanSkeleton, alpha: number) {
+    const targetNodes = new Map(target.nodes.map(n => [n.id, n]));
+    current.nodes.forEach(node => {
+        const match = targetNodes.get(node.id);
+        if (!match) return;
+        node.rotation.slerp(match.rotation, alpha);
+        node.length += (match.length - node.length) * alpha;
+    });
+
+    const targetRoot = targetNodes.get(current.root.id);
+    if (targetRoot) {
+        current.root.position.lerp(targetRoot.position, alpha);
+    }
+  }
+
   private _lerpNode(current: StickmanNode, target: StickmanNode, alpha: number) {
     if (current.id === target.id) {
        current.position.lerp(target.position, alpha);
@@ -97,10 +209,170 @@ export class StickmanSkeleton {
       return this.nodes;
   }
 
+  getParent(id: string): StickmanNode | null {
+      return this.root.findParent(id);
+  }
+
+  // Accumulated rotation of a node's frame (root rotation * ... * node rotation)
+  getWorldRotation(id: string): Quaternion {
+      const path = this._pathTo(this.root, id);
+      const world = new Quaternion();
+      if (path) path.forEach(node => world.multiply(node.rotation));
+      return world;
+  }
+
+  // --- Forward Kinematics ---
+
+  // Recompute every world position from the root position, local rotations and bone lengths
+  updateWorldPositions() {
+      const traverse = (node: StickmanNode, worldRotation: Quaternion) => {
+          node.children.forEach(child => {
+              const childWorld = worldRotation.clone().multiply(child.rotation);
+              child.position
+                  .copy(BONE_AXIS)
+                  .applyQuaternion(childWorld)
+                  .multiplyScalar(child.length)
+                  .add(node.position);
+              traverse(child, childWorld);
+          });
+      };
+      traverse(this.root, this.root.rotation.clone());
+  }
+
+  // Inverse of updateWorldPositions: derive local rotations and bone lengths from world positions.
+  // Used when a pose only carries positions (legacy files, position lerp). Existing rotations are
+  // used as the starting point so the twist around each bone is kept.
+  updateLocalTransforms() {
+      const traverse = (node: StickmanNode, worldRotation: Quaternion) => {
+          node.children.forEach(child => {
+              const offset = new Vector3().subVectors(child.position, node.position);
+              child.length = offset.length();
+              if (child.length > EPSILON) {
+                  this._aimBone(child, worldRotation, offset);
+              }
+              traverse(child, worldRotation.clone().multiply(child.rotation));
+          });
+      };
+      traverse(this.root, this.root.rotation.clone());
+  }
+
+  // Set a node's rotation in world space. The subtree follows through FK.
+  setWorldRotation(id: string, worldRotation: Quaternion) {
+      const node = this.root.findNode(id);
+      if (!node) return;
+      const parent = this.getParent(id);
+      const parentWorld = parent ? this.getWorldRotation(parent.id) : new Quaternion();
+      node.rotation.copy(parentWorld.invert().multiply(worldRotation)).normalize();
+      this.updateWorldPositions();
+  }
+
+  // Rotate the bone leading to a node so it points at target. The bone length is kept.
+  aimNode(id: string, target: Vector3) {
+      const node = this.root.findNode(id);
+      const parent = this.getParent(id);
+      if (!node || !parent) return;
+
+      const direction = new Vector3().subVectors(target, parent.position);
+      if (direction.length() < EPSILON) return;
+
+      this._aimBone(node, this.getWorldRotation(parent.id), direction);
+      this.updateWorldPositions();
+  }
+
   updateNodePosition(id: string, position: Vector3) {
+      if (id === this.root.id) {
+          this.root.position.copy(position);
+          this.updateWorldPositions();
+      } else {
+          this.aimNode(id, position);
+      }
+  }
+
+  // Clamp every constrained joint into its limits (top-down) and rebuild world positions if needed.
+  // Returns true when the pose had to be corrected.
+  applyConstraints(): boolean {
+      let changed = false;
+      this.nodes.forEach(node => {
+          const constraint = this.rig.constraints[node.id];
+          if (constraint && constrainChildren(node, constraint)) changed = true;
+      });
+      if (changed) this.updateWorldPositions();
+      return changed;
+  }
+
+  // Copy positions, rotations and bone lengths from another skeleton, matching nodes by ID
+  copyPose(source: StickmanSkeleton) {
+      const sourceNodes = new Map(source.nodes.map(n => [n.id, n]));
+      this.nodes.forEach(node => {
+          const match = sourceNodes.get(node.id);
+          if (match) {
+              node.position.copy(match.position);
+              node.rotation.copy(match.rotation);
+              node.length = match.length;
+          }
+      });
+  }
+
+  // --- Topology Editing ---
+
+  // Attach a joint under parentId. The node keeps its local rotation and bone length (its rest
+  // offset), and its world position is derived through FK.
+  addJoint(parentId: string, node: StickmanNode): boolean {
+      const parent = this.root.findNode(parentId);
+      if (!parent || this.root.findNode(node.id)) return false;
+      parent.addChild(node);
+      this.updateWorldPositions();
+      this.rig = validateRig(this.rig, this.root);
+      return true;
+  }
+
+  // Remove a joint and its whole subtree. The root cannot be removed.
+  removeJoint(id: string): boolean {
+      const parent = this.getParent(id);
+      if (!parent) return false;
+      parent.children = parent.children.filter(child => child.id !== id);
+      this.rig = validateRig(this.rig, this.root);
+      return true;
+  }
+
+  // Move a joint (with its subtree) under another parent, keeping its world position
+  reparentJoint(id: string, newParentId: string): boolean {
       const node = this.root.findNode(id);
-      if (node) {
-          node.position.copy(position);
+      const parent = this.getParent(id);
+      const newParent = this.root.findNode(newParentId);
+      // The root cannot move and a joint cannot become a child of its own subtree
+      if (!node || !parent || !newParent || node.findNode(newParentId)) return false;
+      if (parent === newParent) return true;
+
+      parent.children = parent.children.filter(child => child.id !== id);
+      newParent.addChild(node);
+      this.updateLocalTransforms();
+      this.rig = validateRig(this.rig, this.root);
+      return true;
+  }
+
+  renameJoint(id: string, name: string): boolean {
+      const node = this.root.findNode(id);
+      if (!node) return false;
+      node.name = name;
+      return true;
+  }
+
+  // Smallest rotation that turns the bone of node towards direction, expressed locally
+  private _aimBone(node: StickmanNode, parentWorld: Quaternion, direction: Vector3) {
+      const currentWorld = parentWorld.clone().multiply(node.rotation);
+      const currentDir = BONE_AXIS.clone().applyQuaternion(currentWorld);
+      const delta = new Quaternion().setFromUnitVectors(currentDir, direction.clone().normalize());
+      const newWorld = delta.multiply(currentWorld);
+      node.rotation.copy(parentWorld.clone().invert().multiply(newWorld)).normalize();
+  }
+
+  private _pathTo(node: StickmanNode, id: string): StickmanNode[] | null {
+      if (node.id === id) return [node];
+      for (const child of node.children) {
+          const path = this._pathTo(child, id);
+          if (path) return [node, ...path];
       }
+      return null;
   }
 }
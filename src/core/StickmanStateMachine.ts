@@ -0,0 +1,101 @@
+import { StickmanClip } from './StickmanKeyframe';
+
+export type StickmanParamValue = number | boolean | string;
+export type StickmanParams = Record<string, StickmanParamValue>;
+
+export type StickmanConditionOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+// Compares a user parameter. `{ param: 'grounded' }` alone checks that it is true.
+export interface StickmanCondition {
+  param: string;
+  op?: StickmanConditionOperator; // Defaults to '=='
+  value?: StickmanParamValue; // Defaults to true
+}
+
+export interface StickmanAnimationState {
+  name: string;
+  clip: string; // Name or ID
+}
+
+export interface StickmanTransition {
+  from: string; // State name, or '*' for any other state
+  to: string;
+  conditions?: StickmanCondition[]; // All must hold
+  duration?: number; // Crossfade in seconds. Defaults to a cut
+  // Earliest point to leave, in plays of the current state's clip since entering it
+  // (0.5 is halfway through the first play, 2 the end of the second)
+  exitTime?: number;
+}
+
+export interface StickmanStateMachineDefinition {
+  initial: string;
+  states: StickmanAnimationState[];
+  transitions: StickmanTransition[]; // Checked in order, the first one that can be taken wins
+}
+
+export const checkCondition = (condition: StickmanCondition, params: StickmanParams): boolean => {
+  const actual = params[condition.param];
+  const expected = condition.value ?? true;
+  if (actual === undefined) return false;
+  switch (condition.op || '==') {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+};
+
+// Tracks the current state of a definition and picks transitions as time passes. Playing the
+// state's clip is up to the caller (see useStickmanStateMachine).
+export class StickmanStateMachine {
+  definition: StickmanStateMachineDefinition;
+  state: string;
+  elapsed = 0; // Seconds since entering the state
+  private durations = new Map<string, number>(); // Clip duration per state
+
+  constructor(definition: StickmanStateMachineDefinition, clips: StickmanClip[]) {
+    this.definition = definition;
+    definition.states.forEach(state => {
+      const clip = clips.find(c => c.id === state.clip) || clips.find(c => c.name === state.clip);
+      if (!clip) throw new Error(`State "${state.name}" uses unknown clip "${state.clip}"`);
+      this.durations.set(state.name, clip.duration);
+    });
+    [definition.initial, ...definition.transitions.flatMap(t => [t.from, t.to])].forEach(name => {
+      if (name !== '*' && !this.durations.has(name)) throw new Error(`Unknown state "${name}"`);
+    });
+    this.state = definition.initial;
+  }
+
+  get clip(): string {
+    return this.definition.states.find(s => s.name === this.state)!.clip;
+  }
+
+  // Plays of the current clip since entering the state
+  get normalizedTime(): number {
+    const duration = this.durations.get(this.state) || 0;
+    return duration > 0 ? this.elapsed / duration : 1;
+  }
+
+  canTake(transition: StickmanTransition, params: StickmanParams): boolean {
+    if (transition.from === '*' ? transition.to === this.state : transition.from !== this.state) return false;
+    if (transition.exitTime !== undefined && this.normalizedTime < transition.exitTime) return false;
+    return (transition.conditions || []).every(c => checkCondition(c, params));
+  }
+
+  // Advance time and take at most one transition. Returns the transition taken.
+  update(delta: number, params: StickmanParams): StickmanTransition | null {
+    this.elapsed += delta;
+    const transition = this.definition.transitions.find(t => this.canTake(t, params));
+    if (!transition) return null;
+    this.state = transition.to;
+    this.elapsed = 0;
+    return transition;
+  }
+
+  reset() {
+    this.state = this.definition.initial;
+    this.elapsed = 0;
+  }
+}
@@ -0,0 +1,90 @@
+import { v4 as uuidv4 } from 'uuid';
+import { StickmanClip, StickmanKeyframe } from './StickmanKeyframe';
+
+// Keyframe edits on a clip. Each returns a new clip; keyframes that change are replaced, never mutated.
+
+const TIME_EPSILON = 0.0001;
+// Keys closer than this to a time count as being on it (half a frame at 30 fps)
+export const KEY_TIME_TOLERANCE = 1 / 60;
+
+export const DEFAULT_CLIP_FPS = 30;
+
+export const getClipFps = (clip: StickmanClip): number => clip.fps && clip.fps > 0 ? clip.fps : DEFAULT_CLIP_FPS;
+
+// Nearest frame time of the clip, kept within it
+export const snapToFrame = (clip: StickmanClip, time: number): number => {
+  const fps = getClipFps(clip);
+  return Math.max(0, Math.min(clip.duration, Math.round(time * fps) / fps));
+};
+
+// Playback settings of a saved clip. Unset values are left out so they keep their defaults.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const parseClipPlayback = (data: any): Pick<StickmanClip, 'loop' | 'fps'> => {
+  const settings: Pick<StickmanClip, 'loop' | 'fps'> = {};
+  if (typeof data?.loop === 'boolean') settings.loop = data.loop;
+  if (typeof data?.fps === 'number' && data.fps > 0) settings.fps = data.fps;
+  return settings;
+};
+
+const lastTimestamp = (keyframes: StickmanKeyframe[]) =>
+  keyframes.length > 0 ? keyframes[keyframes.length - 1].timestamp : 0;
+
+// Put keyframes into a clip, sorted, and fit the duration to them: a clip that ended on its last
+// keyframe keeps ending on it, any other clip only grows to make room for keys past its end.
+export const setClipKeyframes = (clip: StickmanClip, keyframes: StickmanKeyframe[]): StickmanClip => {
+  const sorted = [...keyframes].sort((a, b) => a.timestamp - b.timestamp);
+  const oldEnd = lastTimestamp(clip.keyframes);
+  const newEnd = lastTimestamp(sorted);
+  const endsOnLastKey = clip.keyframes.length > 0 && Math.abs(clip.duration - oldEnd) < TIME_EPSILON;
+  const duration = endsOnLastKey && newEnd > 0 ? newEnd : Math.max(clip.duration, newEnd);
+  return { ...clip, keyframes: sorted, duration };
+};
+
+// Shift keyframes in time. The earliest one stops at 0.
+export const moveKeyframes = (clip: StickmanClip, ids: string[], delta: number): StickmanClip => {
+  const moving = clip.keyframes.filter(kf => ids.includes(kf.id));
+  if (moving.length === 0) return clip;
+  const shift = Math.max(delta, -Math.min(...moving.map(kf => kf.timestamp)));
+  return setClipKeyframes(clip, clip.keyframes.map(kf =>
+    ids.includes(kf.id) ? { ...kf, timestamp: kf.timestamp + shift } : kf
+  ));
+};
+
+// Stretch the spacing of keyframes around a pivot time (by default the earliest of them)
+export const scaleKeyframes = (clip: StickmanClip, ids: string[], factor: number, pivot?: number): StickmanClip => {
+  const scaling = clip.keyframes.filter(kf => ids.includes(kf.id));
+  if (scaling.length === 0 || !(factor > 0)) return clip;
+  const origin = pivot ?? Math.min(...scaling.map(kf => kf.timestamp));
+  return setClipKeyframes(clip, clip.keyframes.map(kf =>
+    ids.includes(kf.id) ? { ...kf, timestamp: Math.max(0, origin + (kf.timestamp - origin) * factor) } : kf
+  ));
+};
+
+export const deleteKeyframes = (clip: StickmanClip, ids: string[]): StickmanClip =>
+  setClipKeyframes(clip, clip.keyframes.filter(kf => !ids.includes(kf.id)));
+
+// Copy keyframes `offset` seconds later. Returns the new clip and the IDs of the copies.
+export const duplicateKeyframes = (
+  clip: StickmanClip,
+  ids: string[],
+  offset: number
+): { clip: StickmanClip, copyIds: string[] } => {
+  const copies = clip.keyframes
+    .filter(kf => ids.includes(kf.id))
+    .map(kf => ({ ...kf, id: uuidv4(), skeleton: kf.skeleton.clone(), timestamp: Math.max(0, kf.timestamp + offset) }));
+  return {
+    clip: setClipKeyframes(clip, [...clip.keyframes, ...copies]),
+    copyIds: copies.map(kf => kf.id),
+  };
+};
+
+// Keyframe sitting on a time, if any
+export const findKeyframeAt = (clip: StickmanClip, time: number, tolerance = KEY_TIME_TOLERANCE): StickmanKeyframe | undefined =>
+  clip.keyframes.find(kf => Math.abs(kf.timestamp - time) <= tolerance);
+
+// IDs of the keyframes within a time range (inclusive, in either order)
+export const keyframesInRange = (clip: StickmanClip, from: number, to: number): string[] => {
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  return clip.keyframes.filter(kf => kf.timestamp >= start && kf.timestamp <= end).map(kf => kf.id);
+};
@@ -0,0 +1,757 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { StickmanSkeleton } from '../StickmanSkeleton';
+import { StickmanClip } from '../StickmanKeyframe';
+import { applyEasing, parseEasing } from '../StickmanEasing';
+import { sampleClip } from '../StickmanClipSampler';
+import {
+    moveKeyframes, scaleKeyframes, duplicateKeyframes, deleteKeyframes, keyframesInRange, findKeyframeAt,
+    snapToFrame, parseClipPlayback
+} from '../StickmanTimeline';
+import { getOnionGhosts, DEFAULT_ONION_SKIN } from '../StickmanOnionSkin';
+import { getMotionPath } from '../StickmanMotionPath';
+import {
+    HEAD_RADIUS_CHANNEL, writeKeyframe, captureChannels, changedChannels, parseChannels
+} from '../StickmanChannels';
+import { StickmanMixer, resolveJointWeights } from '../StickmanMixer';
+import { advanceClipTime, addMarker, updateMarker, parseMarkers } from '../StickmanMarkers';
+import {
+    reverseClip, reverseEasing, retimeClip, retimeClipToDuration, trimClip, appendClip, pingPongClip, splitClip,
+    duplicateClip
+} from '../StickmanClipOps';
+import { extractRootMotion, bakeRootMotion, getRootMotionDelta, getYaw, sampleRootMotion } from '../StickmanRootMotion';
+import { StickmanStateMachine, StickmanStateMachineDefinition, checkCondition } from '../StickmanStateMachine';
+import { generateGait, WALK_GAIT, RUN_GAIT } from '../StickmanGait';
+
+const makeClip = (): StickmanClip => {
+    const start = new StickmanSkeleton();
+    const end = start.clone();
+    end.updateNodePosition(end.root.id, new Vector3(2, 1, 0));
+    return {
+        id: 'clip',
+        name: 'Slide',
+        duration: 1,
+        interpolation: 'rotation',
+        keyframes: [
+            { id: 'a', timestamp: 0, skeleton: start },
+            { id: 'b', timestamp: 1, skeleton: end },
+        ],
+    };
+};
+
+describe('applyEasing', () => {
+    it('should be linear by default', () => {
+        expect(applyEasing(undefined, 0.3)).toBeCloseTo(0.3);
+        expect(applyEasing({ type: 'linear' }, 0.3)).toBeCloseTo(0.3);
+    });
+
+    it('should hold until the end for step', () => {
+        expect(applyEasing({ type: 'step' }, 0.99)).toBe(0);
+        expect(applyEasing({ type: 'step' }, 1)).toBe(1);
+    });
+
+    it('should keep endpoints and shape the middle for eases', () => {
+        expect(applyEasing({ type: 'easeIn' }, 0)).toBeCloseTo(0);
+        expect(applyEasing({ type: 'easeIn' }, 1)).toBeCloseTo(1);
+        expect(applyEasing({ type: 'easeIn' }, 0.5)).toBeLessThan(0.5);
+        expect(applyEasing({ type: 'easeOut' }, 0.5)).toBeGreaterThan(0.5);
+        expect(applyEasing({ type: 'easeInOut' }, 0.5)).toBeCloseTo(0.5);
+    });
+
+    it('should evaluate custom bezier handles', () => {
+        // Handles on the diagonal are linear
+        expect(applyEasing({ type: 'bezier', handles: [0.25, 0.25, 0.75, 0.75] }, 0.4)).toBeCloseTo(0.4);
+    });
+
+    it('should ignore unknown easings when parsing', () => {
+        expect(parseEasing({ type: 'wobble' })).toBeUndefined();
+        expect(parseEasing({ type: 'bezier', handles: [2, 0, -1, 1] })?.handles).toEqual([1, 0, 0, 1]);
+    });
+});
+
+describe('sampleClip', () => {
+    it('should return null for an empty clip', () => {
+        expect(sampleClip({ ...makeClip(), keyframes: [] }, 0.5)).toBeNull();
+    });
+
+    it('should interpolate linearly without easing', () => {
+        const pose = sampleClip(makeClip(), 0.5)!;
+        expect(pose.root.position.x).toBeCloseTo(1);
+    });
+
+    it('should honor the easing of the leaving keyframe', () => {
+        const clip = makeClip();
+        clip.keyframes[0].easing = { type: 'step' };
+        expect(sampleClip(clip, 0.5)!.root.position.x).toBeCloseTo(0);
+        expect(sampleClip(clip, 1)!.root.position.x).toBeCloseTo(2);
+    });
+});
+
+describe('sampleClip with spline curves', () => {
+    const makeBounce = (curve: 'linear' | 'spline'): StickmanClip => {
+        const base = new StickmanSkeleton();
+        const poses = [0, 1, 0].map(y => {
+            const skeleton = base.clone();
+            skeleton.updateNodePosition(skeleton.root.id, new Vector3(0, 1 + y, 0));
+            return skeleton;
+        });
+        return {
+            id: 'bounce',
+            name: 'Bounce',
+            duration: 2,
+            curve,
+            keyframes: poses.map((skeleton, i) => ({ id: `k${i}`, timestamp: i, skeleton })),
+        };
+    };
+
+    it('should pass through the keyframes', () => {
+        const clip = makeBounce('spline');
+        expect(sampleClip(clip, 1)!.root.position.y).toBeCloseTo(2);
+    });
+
+    it('should have no velocity jump at an inner keyframe', () => {
+        const clip = makeBounce('spline');
+        const h = 0.01;
+        const before = sampleClip(clip, 1 - h)!.root.position.y;
+        const after = sampleClip(clip, 1 + h)!.root.position.y;
+        // With a symmetric apex the spline is flat at the key, so both sides stay close to the peak
+        expect(2 - before).toBeLessThan(0.001);
+        expect(2 - after).toBeLessThan(0.001);
+
+        const linear = makeBounce('linear');
+        expect(2 - sampleClip(linear, 1 - h)!.root.position.y).toBeCloseTo(h);
+    });
+});
+
+describe('keyframe editing', () => {
+    const makeKeyedClip = (duration: number): StickmanClip => {
+        const skeleton = new StickmanSkeleton();
+        return {
+            id: 'clip',
+            name: 'Keys',
+            duration,
+            keyframes: [0, 1, 2].map(t => ({ id: `k${t}`, timestamp: t, skeleton: skeleton.clone() })),
+        };
+    };
+
+    it('should keep keys sorted and stop at zero when moving', () => {
+        const clip = moveKeyframes(makeKeyedClip(5), ['k1'], 1.5);
+        expect(clip.keyframes.map(kf => kf.id)).toEqual(['k0', 'k2', 'k1']);
+        expect(moveKeyframes(clip, ['k1', 'k2'], -10).keyframes.map(kf => kf.timestamp)).toEqual([0, 0, 0.5]);
+    });
+
+    it('should fit the duration of a clip that ends on its last key', () => {
+        expect(moveKeyframes(makeKeyedClip(2), ['k2'], -0.5).duration).toBe(1.5);
+        expect(moveKeyframes(makeKeyedClip(5), ['k2'], -0.5).duration).toBe(5);
+        expect(moveKeyframes(makeKeyedClip(5), ['k2'], 4).duration).toBe(6);
+    });
+
+    it('should scale around the earliest selected key', () => {
+        const clip = scaleKeyframes(makeKeyedClip(2), ['k1', 'k2'], 2);
+        expect(clip.keyframes.map(kf => kf.timestamp)).toEqual([0, 1, 3]);
+        expect(clip.duration).toBe(3);
+    });
+
+    it('should duplicate and delete keys without touching the originals', () => {
+        const original = makeKeyedClip(2);
+        const { clip, copyIds } = duplicateKeyframes(original, ['k0', 'k1'], 3);
+        expect(clip.keyframes.map(kf => kf.timestamp)).toEqual([0, 1, 2, 3, 4]);
+        expect(clip.keyframes[3].skeleton).not.toBe(original.keyframes[0].skeleton);
+        expect(deleteKeyframes(clip, copyIds).keyframes.map(kf => kf.id)).toEqual(['k0', 'k1', 'k2']);
+        expect(keyframesInRange(clip, 2.5, 0.5)).toEqual(['k1', 'k2']);
+    });
+
+    it('should find a key within half a frame of a time', () => {
+        const clip = makeKeyedClip(2);
+        expect(findKeyframeAt(clip, 1.01)?.id).toBe('k1');
+        expect(findKeyframeAt(clip, 1.5)).toBeUndefined();
+    });
+});
+
+describe('getOnionGhosts', () => {
+    const makeKeyedClip = (): StickmanClip => {
+        const skeleton = new StickmanSkeleton();
+        return {
+            id: 'clip',
+            name: 'Keys',
+            duration: 4,
+            keyframes: [0, 1, 2, 3, 4].map(t => ({ id: `k${t}`, timestamp: t, skeleton: skeleton.clone() })),
+        };
+    };
+
+    it('should pick the nearest keyframes on each side with fading opacity', () => {
+        const clip = makeKeyedClip();
+        const ghosts = getOnionGhosts(clip, 2, { ...DEFAULT_ONION_SKIN, count: 2, opacity: 0.5, falloff: 0.5 });
+        expect(ghosts.map(g => g.offset)).toEqual([-1, -2, 1, 2]);
+        expect(ghosts[0].skeleton).toBe(clip.keyframes[1].skeleton);
+        expect(ghosts[1].opacity).toBeCloseTo(0.25);
+        expect(ghosts[2].color).toBe(DEFAULT_ONION_SKIN.afterColor);
+    });
+
+    it('should sample frames inside the clip only', () => {
+        const ghosts = getOnionGhosts(makeKeyedClip(), 0.15, { ...DEFAULT_ONION_SKIN, mode: 'frames', count: 3, step: 0.1 });
+        expect(ghosts.map(g => g.offset)).toEqual([-1, 1, 2, 3]);
+    });
+});
+
+describe('getMotionPath', () => {
+    it('should trace a joint through every keyframe', () => {
+        const clip = makeClip();
+        const rootId = clip.keyframes[0].skeleton.root.id;
+        const path = getMotionPath(clip, rootId, 10);
+        expect(path.points.length).toBe(11);
+        expect(path.points[0]).toEqual([0, 1, 0]);
+        expect(path.points[10][0]).toBeCloseTo(2);
+        expect(path.keys.map(k => k.keyframeId)).toEqual(['a', 'b']);
+        expect(path.keys[1].position.x).toBeCloseTo(2);
+    });
+});
+
+describe('animation channels', () => {
+    // Adds a key at 0.5s that only keys the head size
+    const makeChannelClip = () => {
+        const clip = makeClip();
+        const pose = clip.keyframes[0].skeleton.clone();
+        pose.headRadius = 0.3;
+        pose.updateNodePosition(pose.root.id, new Vector3(-5, 0, 0));
+        return writeKeyframe(clip, 0.5, pose, [HEAD_RADIUS_CHANNEL]);
+    };
+
+    it('should sample each channel between the keyframes that key it', () => {
+        const clip = makeChannelClip();
+        const start = clip.keyframes[0].skeleton.headRadius;
+        expect(clip.keyframes[1].channels).toEqual([HEAD_RADIUS_CHANNEL]);
+
+        const mid = sampleClip(clip, 0.5)!;
+        expect(mid.root.position.x).toBeCloseTo(1);
+        expect(mid.headRadius).toBeCloseTo(0.3);
+        expect(sampleClip(clip, 0.25)!.headRadius).toBeCloseTo((start + 0.3) / 2);
+        expect(sampleClip(clip, 0.75)!.root.position.x).toBeCloseTo(1.5);
+    });
+
+    it('should merge channels into a key already at that time', () => {
+        const clip = makeChannelClip();
+        const pose = sampleClip(clip, 0.5)!;
+        pose.root.position.set(3, 1, 0);
+        const merged = writeKeyframe(clip, 0.5, pose, [pose.root.id]);
+        expect(merged.keyframes.length).toBe(3);
+        expect(merged.keyframes[1].channels).toEqual([HEAD_RADIUS_CHANNEL, pose.root.id]);
+        expect(sampleClip(merged, 0.5)!.root.position.x).toBeCloseTo(3);
+
+        // Whole-pose keys stay whole
+        const whole = writeKeyframe(clip, 1, pose, [HEAD_RADIUS_CHANNEL]);
+        expect(whole.keyframes[2].channels).toBeUndefined();
+    });
+
+    it('should report only the channels an edit changed', () => {
+        const skeleton = new StickmanSkeleton();
+        const before = captureChannels(skeleton);
+        skeleton.updateNodePosition(skeleton.root.id, new Vector3(1, 1, 0));
+        expect(changedChannels(before, skeleton)).toEqual([skeleton.root.id]);
+    });
+
+    it('should play keyed sizes through the mixer', () => {
+        const clip = makeChannelClip();
+        const start = clip.keyframes[0].skeleton.headRadius;
+        const mixer = new StickmanMixer([clip]);
+        const target = new StickmanSkeleton();
+        mixer.play('Slide');
+        mixer.update(0.25, false);
+        mixer.evaluate(target);
+        expect(target.headRadius).toBeCloseTo((start + 0.3) / 2);
+        mixer.update(0.25, false);
+        mixer.evaluate(target);
+        expect(target.headRadius).toBeCloseTo(0.3);
+    });
+
+    it('should treat keyframes without a channel list as whole poses', () => {
+        expect(parseChannels(undefined)).toBeUndefined();
+        expect(parseChannels(['a', 2, 'b'])).toEqual(['a', 'b']);
+    });
+});
+
+describe('StickmanMixer', () => {
+    const makeMixer = () => {
+        const slide = makeClip();
+        const still = { ...makeClip(), id: 'still', name: 'Still', keyframes: [slide.keyframes[0]] };
+        return new StickmanMixer([slide, still]);
+    };
+
+    it('should resolve masks by name and inherit weights down the tree', () => {
+        const skeleton = new StickmanSkeleton();
+        const elbow = skeleton.nodes.find(n => n.name === 'rightElbow')!;
+        const hand = skeleton.nodes.find(n => n.name === 'rightHand')!;
+        const weights = resolveJointWeights(skeleton, 0.5, { rightElbow: 1 });
+        expect(weights.get(elbow.id)).toBe(0.5);
+        expect(weights.get(hand.id)).toBe(0.5);
+        expect(weights.get(skeleton.root.id)).toBe(0);
+    });
+
+    it('should crossfade from the previous clip', () => {
+        const mixer = makeMixer();
+        const target = mixer.clips[0].keyframes[0].skeleton.clone();
+        mixer.play('Slide');
+        mixer.update(1, false);
+        mixer.play('still', 0.5);
+        mixer.update(0.25, false);
+        mixer.evaluate(target);
+        // Halfway from the end of the slide (x = 2) to the still pose (x = 0)
+        expect(target.root.position.x).toBeCloseTo(1);
+
+        mixer.update(0.5, false);
+        mixer.evaluate(target);
+        expect(target.root.position.x).toBeCloseTo(0);
+    });
+
+    it('should add masked layers on top of the base clip', () => {
+        const mixer = makeMixer();
+        const target = mixer.clips[0].keyframes[0].skeleton.clone();
+        mixer.play('still');
+        mixer.setLayers([{ clip: 'Slide', mode: 'additive', weight: 0.5 }]);
+        mixer.update(1, false);
+        mixer.evaluate(target);
+        expect(target.root.position.x).toBeCloseTo(1);
+
+        mixer.setLayers([{ clip: 'Slide', mask: { leftHand: 1 } }]);
+        mixer.evaluate(target);
+        expect(target.root.position.x).toBeCloseTo(0);
+    });
+
+    it('should blend head and stroke sizes across fades and layers', () => {
+        const slide = makeClip();
+        const big = slide.keyframes[0].skeleton.clone();
+        big.headRadius = slide.keyframes[0].skeleton.headRadius + 0.2;
+        big.strokeWidth = slide.keyframes[0].skeleton.strokeWidth + 0.1;
+        const mixer = new StickmanMixer([slide, { ...slide, id: 'big', name: 'Big', keyframes: [{ id: 'c', timestamp: 0, skeleton: big }] }]);
+        const target = new StickmanSkeleton();
+        mixer.play('Slide');
+        mixer.play('big', 0.5);
+        mixer.update(0.25, false);
+        mixer.evaluate(target);
+        expect(target.headRadius).toBeCloseTo(big.headRadius - 0.1);
+        expect(target.strokeWidth).toBeCloseTo(big.strokeWidth - 0.05);
+
+        // Sizes follow the root's weight, so a layer masked to an arm keeps them
+        mixer.play('Slide');
+        mixer.setLayers([{ clip: 'big', mask: { leftHand: 1 } }, { clip: 'big', weight: 0.5 }]);
+        mixer.evaluate(target);
+        expect(target.headRadius).toBeCloseTo(big.headRadius - 0.1);
+    });
+});
+
+describe('StickmanStateMachine', () => {
+    const clips = [makeClip(), { ...makeClip(), id: 'jump', name: 'Jump' }];
+    const definition: StickmanStateMachineDefinition = {
+        initial: 'idle',
+        states: [
+            { name: 'idle', clip: 'Slide' },
+            { name: 'walk', clip: 'Slide' },
+            { name: 'jump', clip: 'jump' },
+        ],
+        transitions: [
+            { from: 'idle', to: 'walk', conditions: [{ param: 'speed', op: '>', value: 0.1 }], duration: 0.2 },
+            { from: 'walk', to: 'idle', conditions: [{ param: 'speed', op: '<=', value: 0.1 }] },
+            { from: '*', to: 'jump', conditions: [{ param: 'jumping' }] },
+            { from: 'jump', to: 'idle', exitTime: 1 },
+        ],
+    };
+
+    it('should compare parameters', () => {
+        expect(checkCondition({ param: 'grounded' }, { grounded: true })).toBe(true);
+        expect(checkCondition({ param: 'speed', op: '>=', value: 2 }, { speed: 1 })).toBe(false);
+        expect(checkCondition({ param: 'missing', op: '!=', value: 1 }, {})).toBe(false);
+    });
+
+    it('should follow transitions whose conditions hold', () => {
+        const machine = new StickmanStateMachine(definition, clips);
+        expect(machine.update(0.1, { speed: 0 })).toBeNull();
+        expect(machine.update(0.1, { speed: 1 })?.duration).toBe(0.2);
+        expect(machine.state).toBe('walk');
+        expect(machine.clip).toBe('Slide');
+        machine.update(0.1, { speed: 1, jumping: true });
+        expect(machine.state).toBe('jump');
+    });
+
+    it('should wait for the exit time', () => {
+        const machine = new StickmanStateMachine(definition, clips);
+        machine.update(0, { jumping: true });
+        expect(machine.update(0.5, {})).toBeNull();
+        expect(machine.normalizedTime).toBeCloseTo(0.5);
+        machine.update(0.5, {});
+        expect(machine.state).toBe('idle');
+    });
+
+    it('should line up exit times with a clip shared by two states', () => {
+        const shared: StickmanStateMachineDefinition = {
+            initial: 'idle',
+            states: [{ name: 'idle', clip: 'Slide' }, { name: 'lookAround', clip: 'Slide' }],
+            transitions: [
+                { from: 'idle', to: 'lookAround', conditions: [{ param: 'bored' }] },
+                { from: 'lookAround', to: 'idle', exitTime: 1 },
+            ],
+        };
+        // Drive a mixer the way useStickmanStateMachine drives the player
+        const machine = new StickmanStateMachine(shared, clips);
+        const mixer = new StickmanMixer(clips);
+        mixer.play(machine.clip);
+        const step = (delta: number, params = {}) => {
+            mixer.update(delta, true);
+            if (machine.update(delta, params)) mixer.play(machine.clip, 0, true);
+        };
+        step(0.6);
+        step(0.1, { bored: true });
+        expect(machine.state).toBe('lookAround');
+        expect(mixer.time).toBe(0);
+
+        step(0.9);
+        expect(machine.state).toBe('lookAround');
+        expect(machine.normalizedTime).toBeCloseTo(mixer.time / mixer.currentClip!.duration);
+        step(0.1);
+        expect(machine.state).toBe('idle');
+    });
+
+    it('should reject unknown states and clips', () => {
+        expect(() => new StickmanStateMachine({ ...definition, initial: 'run' }, clips)).toThrow();
+        expect(() => new StickmanStateMachine({ ...definition, states: [{ name: 'idle', clip: 'Run' }] }, clips)).toThrow();
+    });
+});
+
+describe('clip markers', () => {
+    const makeMarkedClip = () => {
+        let clip = makeClip();
+        clip = addMarker(clip, 'step', 0.5).clip;
+        clip = addMarker(clip, 'start', 0).clip;
+        return clip;
+    };
+
+    it('should keep markers sorted when edited', () => {
+        const clip = makeMarkedClip();
+        expect(clip.markers!.map(m => m.name)).toEqual(['start', 'step']);
+        const moved = updateMarker(clip, clip.markers![0].id, { time: 0.8 });
+        expect(moved.markers!.map(m => m.name)).toEqual(['step', 'start']);
+    });
+
+    it('should report markers crossed between updates', () => {
+        const clip = makeMarkedClip();
+        const first = advanceClipTime(clip, 0, 0.25, true, true);
+        expect(first.markers.map(m => m.name)).toEqual(['start']);
+        expect(advanceClipTime(clip, 0.25, 0.25, true).markers.map(m => m.name)).toEqual(['step']);
+        expect(advanceClipTime(clip, 0.5, 0.25, true).markers).toEqual([]);
+    });
+
+    it('should report every play across loops and large deltas', () => {
+        const clip = makeMarkedClip();
+        const result = advanceClipTime(clip, 0.75, 1.5, true);
+        expect(result.time).toBeCloseTo(0.25);
+        expect(result.markers.map(m => m.name)).toEqual(['start', 'step', 'start']);
+        expect(advanceClipTime(clip, 0.75, 1.5, false).markers).toEqual([]);
+    });
+
+    it('should fire events from the mixer', () => {
+        const mixer = new StickmanMixer([makeMarkedClip()]);
+        mixer.play('clip');
+        expect(mixer.update(0.6).map(e => e.name)).toEqual(['start', 'step']);
+        expect(mixer.update(0.6)[0]).toEqual({ name: 'start', time: 0, clip: 'Slide' });
+    });
+
+    it('should parse saved markers', () => {
+        expect(parseMarkers(undefined)).toBeUndefined();
+        expect(parseMarkers([{ name: 'hit', time: 2 }, { name: 'bad' }])!.map(m => m.name)).toEqual(['hit']);
+    });
+});
+
+describe('clip operations', () => {
+    const rootX = (clip: StickmanClip, time: number) => sampleClip(clip, time)!.root.position.x;
+
+    it('should reverse keys, easings and markers with fresh IDs', () => {
+        const source = makeClip();
+        source.keyframes[0].easing = { type: 'easeIn' };
+        const clip = addMarker(source, 'hit', 0.25).clip;
+        const reversed = reverseClip(clip);
+        expect(reversed.id).not.toBe(clip.id);
+        expect(reversed.keyframes.map(kf => kf.id)).not.toContain('a');
+        expect(reversed.keyframes[0].easing).toEqual({ type: 'easeOut' });
+        expect(reversed.markers![0].time).toBeCloseTo(0.75);
+        expect(rootX(reversed, 0)).toBeCloseTo(2);
+        expect(rootX(reversed, 0.25)).toBeCloseTo(rootX(clip, 0.75));
+        expect(reverseEasing({ type: 'bezier', handles: [0.1, 0.2, 0.3, 0.4] })!.handles).toEqual([0.7, 0.6, 0.9, 0.8]);
+    });
+
+    it('should keep the easing of each channel when reversing partial keys', () => {
+        // The root eases in from 0 to 1; a key at 0.5 only keys the head size, linearly
+        const source = makeClip();
+        source.keyframes[0].easing = { type: 'easeIn' };
+        const pose = source.keyframes[0].skeleton.clone();
+        pose.headRadius = 0.3;
+        const clip = writeKeyframe(source, 0.5, pose, [HEAD_RADIUS_CHANNEL]);
+
+        const reversed = reverseClip(clip);
+        [0.1, 0.25, 0.5, 0.75, 0.9].forEach(time => {
+            expect(rootX(reversed, time)).toBeCloseTo(rootX(clip, 1 - time));
+            expect(sampleClip(reversed, time)!.headRadius).toBeCloseTo(sampleClip(clip, 1 - time)!.headRadius);
+        });
+    });
+
+    it('should jump at the start of reversed holds', () => {
+        // Holds the start pose until 1, then jumps to x = 2
+        const clip = makeClip();
+        clip.keyframes[0].easing = { type: 'step' };
+        const reversed = reverseClip(clip);
+        expect(rootX(reversed, 0)).toBeCloseTo(2);
+        [0.05, 0.5, 1].forEach(time => expect(rootX(reversed, time)).toBeCloseTo(rootX(clip, 1 - time)));
+
+        // Only the held channel jumps: the head size, keyed linearly at 0, still eases
+        const [a, b] = makeClip().keyframes;
+        const start = a.skeleton.headRadius;
+        b.skeleton.headRadius = 0.3;
+        const partial = reverseClip({ ...clip, keyframes: [
+            { ...a, channels: [a.skeleton.root.id], easing: { type: 'step' } },
+            { ...a, id: 'h', channels: [HEAD_RADIUS_CHANNEL] },
+            b,
+        ] });
+        expect(rootX(partial, 0.5)).toBeCloseTo(0);
+        expect(sampleClip(partial, 0.5)!.headRadius).toBeCloseTo((start + 0.3) / 2);
+    });
+
+    it('should retime by speed or to a duration', () => {
+        const fast = retimeClip(makeClip(), 2);
+        expect(fast.duration).toBeCloseTo(0.5);
+        expect(rootX(fast, 0.25)).toBeCloseTo(1);
+        expect(retimeClipToDuration(makeClip(), 4).keyframes[1].timestamp).toBeCloseTo(4);
+    });
+
+    it('should trim with keys at the cut points', () => {
+        const trimmed = trimClip(makeClip(), 0.25, 0.75);
+        expect(trimmed.duration).toBeCloseTo(0.5);
+        expect(trimmed.keyframes.map(kf => kf.timestamp)).toEqual([0, 0.5]);
+        expect(rootX(trimmed, 0)).toBeCloseTo(0.5);
+        expect(rootX(trimmed, 0.5)).toBeCloseTo(1.5);
+    });
+
+    it('should append with a blend gap and ping-pong back to the start', () => {
+        const joined = appendClip(makeClip(), reverseClip(makeClip()), 0.5);
+        expect(joined.duration).toBeCloseTo(2.5);
+        expect(joined.keyframes.map(kf => kf.timestamp)).toEqual([0, 1, 1.5, 2.5]);
+
+        const pingPong = pingPongClip(makeClip());
+        expect(pingPong.keyframes.map(kf => kf.timestamp)).toEqual([0, 1, 2]);
+        expect(rootX(pingPong, 2)).toBeCloseTo(0);
+        expect(new Set(pingPong.keyframes.map(kf => kf.id)).size).toBe(3);
+    });
+
+    it('should leave out keys past the end when reversing', () => {
+        // Shortened to 0.5: the key at 1 is kept but not played
+        const clip = { ...makeClip(), duration: 0.5 };
+        const reversed = reverseClip(clip);
+        expect(reversed.keyframes.map(kf => kf.timestamp)).toEqual([0, 0.5]);
+        expect(rootX(reversed, 0)).toBeCloseTo(rootX(clip, 0.5));
+        expect(rootX(reversed, 0.5)).toBeCloseTo(0);
+        expect(pingPongClip(clip).keyframes.map(kf => kf.timestamp)).toEqual([0, 0.5, 1]);
+    });
+
+    it('should split at a time into two clips', () => {
+        const [head, tail] = splitClip(makeClip(), 0.4);
+        expect(head.duration).toBeCloseTo(0.4);
+        expect(tail.duration).toBeCloseTo(0.6);
+        expect(rootX(tail, 0)).toBeCloseTo(rootX(head, 0.4));
+    });
+
+    it('should duplicate with fresh IDs and the same playback settings', () => {
+        const clip = { ...extractRootMotion(makeClip()), loop: false, fps: 24 };
+        const copy = duplicateClip(clip);
+        expect(copy.id).not.toBe(clip.id);
+        expect(copy.name).toBe('Slide (copy)');
+        expect(copy.keyframes.map(kf => kf.id)).not.toContain('a');
+        expect(copy.keyframes[1].skeleton).not.toBe(clip.keyframes[1].skeleton);
+        expect(copy.rootMotion).toEqual(clip.rootMotion);
+        expect([copy.loop, copy.fps, copy.duration]).toEqual([false, 24, 1]);
+    });
+});
+
+describe('clip playback settings', () => {
+    it('should snap times to the clip frame rate', () => {
+        expect(snapToFrame(makeClip(), 0.51)).toBeCloseTo(15 / 30);
+        expect(snapToFrame({ ...makeClip(), fps: 4 }, 0.4)).toBeCloseTo(0.5);
+        expect(snapToFrame(makeClip(), 3)).toBe(1);
+    });
+
+    it('should parse only valid settings', () => {
+        expect(parseClipPlayback({ loop: false, fps: 12 })).toEqual({ loop: false, fps: 12 });
+        expect(parseClipPlayback({ loop: 'yes', fps: -1 })).toEqual({});
+    });
+
+    it('should stop the mixer at the end of a clip that does not loop', () => {
+        const mixer = new StickmanMixer([{ ...makeClip(), loop: false }]);
+        mixer.play('Slide');
+        mixer.update(1.5);
+        expect(mixer.time).toBeCloseTo(1);
+        mixer.update(1.5, true);
+        expect(mixer.time).toBeCloseTo(0.5);
+    });
+});
+
+describe('root motion', () => {
+    // Walks 2 along +X while turning a quarter turn left
+    const makeTurningClip = () => {
+        const clip = makeClip();
+        const end = clip.keyframes[1].skeleton;
+        end.root.rotation.setFromAxisAngle(new Vector3(0, 1, 0), Math.PI / 2);
+        end.updateWorldPositions();
+        return clip;
+    };
+
+    it('should leave the clip in place and keep the travel in a track', () => {
+        const clip = extractRootMotion(makeClip());
+        expect(clip.rootMotion!.length).toBeGreaterThan(2);
+        expect(sampleClip(clip, 0.5)!.root.position.x).toBeCloseTo(0);
+        expect(sampleClip(clip, 0.5)!.root.position.y).toBeCloseTo(1);
+        expect(getRootMotionDelta(clip, 0, 0.5).translation.x).toBeCloseTo(1);
+    });
+
+    it('should take out the yaw only when asked', () => {
+        expect(getYaw(extractRootMotion(makeTurningClip()).keyframes[1].skeleton.root.rotation)).toBeCloseTo(Math.PI / 2);
+        const clip = extractRootMotion(makeTurningClip(), true);
+        expect(getYaw(clip.keyframes[1].skeleton.root.rotation)).toBeCloseTo(0);
+        expect(getRootMotionDelta(clip, 0, 1).yaw).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('should chain loops in the character frame', () => {
+        const clip = extractRootMotion(makeTurningClip(), true);
+        // Two full plays: +2 along X, then +2 along the turned heading (-Z)
+        const delta = getRootMotionDelta(clip, 0, 1, 1);
+        expect(delta.translation.x).toBeCloseTo(2);
+        expect(delta.translation.z).toBeCloseTo(-2);
+        expect(delta.yaw).toBeCloseTo(Math.PI);
+    });
+
+    it('should bake the track back into the keyframes', () => {
+        const baked = bakeRootMotion(extractRootMotion(makeTurningClip(), true));
+        expect(baked.rootMotion).toBeUndefined();
+        expect(baked.keyframes[1].skeleton.root.position.x).toBeCloseTo(2);
+        expect(getYaw(baked.keyframes[1].skeleton.root.rotation)).toBeCloseTo(Math.PI / 2);
+    });
+
+    describe('through clip operations', () => {
+        const travel = (clip: StickmanClip, time: number) => sampleRootMotion(clip, time).x;
+        const makeTracked = () => extractRootMotion(makeClip());
+
+        it('should run the track backwards when reversed', () => {
+            const reversed = reverseClip(makeTracked());
+            expect(travel(reversed, 0)).toBeCloseTo(0);
+            expect(travel(reversed, 0.25)).toBeCloseTo(-0.5);
+            expect(travel(reversed, 1)).toBeCloseTo(-2);
+            // Turned back to the heading it started with, in the frame of the end heading
+            const turned = reverseClip(extractRootMotion(makeTurningClip(), true));
+            expect(getRootMotionDelta(turned, 0, 1).yaw).toBeCloseTo(-Math.PI / 2);
+            expect(getRootMotionDelta(turned, 0, 1).translation.z).toBeCloseTo(-2);
+        });
+
+        it('should scale the track times when retimed', () => {
+            const fast = retimeClip(makeTracked(), 2);
+            expect(travel(fast, 0.25)).toBeCloseTo(1);
+            expect(travel(fast, 0.5)).toBeCloseTo(2);
+        });
+
+        it('should scale the track times when retimed to a duration', () => {
+            const slow = retimeClipToDuration(makeTracked(), 4);
+            expect(travel(slow, 2)).toBeCloseTo(1);
+            expect(travel(slow, 4)).toBeCloseTo(2);
+        });
+
+        it('should cut and rebase the track when trimmed', () => {
+            const trimmed = trimClip(makeTracked(), 0.25, 0.75);
+            expect(trimmed.rootMotion![0].time).toBe(0);
+            expect(travel(trimmed, 0)).toBeCloseTo(0);
+            expect(travel(trimmed, 0.5)).toBeCloseTo(1);
+        });
+
+        it('should carry on from the end of the first clip when appended', () => {
+            const joined = appendClip(makeTracked(), makeTracked(), 0.5);
+            expect(travel(joined, 1.25)).toBeCloseTo(2);
+            expect(travel(joined, 2.5)).toBeCloseTo(4);
+            // The second clip walks along the heading the first one turned to
+            const turning = extractRootMotion(makeTurningClip(), true);
+            const end = sampleRootMotion(appendClip(turning, turning), 2);
+            expect(end.x).toBeCloseTo(2);
+            expect(end.z).toBeCloseTo(-2);
+            expect(end.yaw).toBeCloseTo(Math.PI);
+        });
+
+        it('should travel out and back when ping-ponged', () => {
+            const pingPong = pingPongClip(makeTracked());
+            expect(travel(pingPong, 1)).toBeCloseTo(2);
+            expect(travel(pingPong, 1.5)).toBeCloseTo(1);
+            expect(travel(pingPong, 2)).toBeCloseTo(0);
+        });
+
+        it('should give each half its part of the track when split', () => {
+            const [head, tail] = splitClip(makeTracked(), 0.4);
+            expect(travel(head, 0.4)).toBeCloseTo(0.8);
+            expect(travel(tail, 0)).toBeCloseTo(0);
+            expect(travel(tail, 0.6)).toBeCloseTo(1.2);
+        });
+    });
+
+    it('should report root motion from the mixer', () => {
+        const mixer = new StickmanMixer([extractRootMotion(makeClip())]);
+        mixer.play('Slide');
+        mixer.update(0.25);
+        expect(mixer.rootMotion.translation.x).toBeCloseTo(0.5);
+    });
+});
+
+describe('generateGait', () => {
+    const base = new StickmanSkeleton();
+    const find = (skeleton: StickmanSkeleton, name: string) => skeleton.nodes.find(n => n.name === name)!;
+
+    it('should loop over a whole number of cycles', () => {
+        const clip = generateGait(base, { ...WALK_GAIT, duration: 2 });
+        const cycle = 120 / WALK_GAIT.cadence;
+        expect(clip.duration / cycle).toBeCloseTo(Math.round(clip.duration / cycle));
+        const first = clip.keyframes[0].skeleton;
+        const last = clip.keyframes[clip.keyframes.length - 1].skeleton;
+        first.nodes.forEach(node => {
+            expect(find(last, node.name).position.distanceTo(node.position)).toBeCloseTo(0);
+        });
+    });
+
+    it('should keep bone lengths and plant the feet on the ground', () => {
+        const clip = generateGait(base, RUN_GAIT);
+        clip.keyframes.forEach(kf => {
+            kf.skeleton.nodes.forEach(node => {
+                expect(node.length).toBeCloseTo(find(base, node.name).length);
+            });
+            const feet = ['leftFoot', 'rightFoot'].map(name => find(kf.skeleton, name).position.y);
+            expect(Math.min(...feet)).toBeCloseTo(0);
+        });
+    });
+
+    it('should step towards where the knees bend and swing arms against the legs', () => {
+        const clip = generateGait(base, WALK_GAIT);
+        const pose = clip.keyframes[0].skeleton;
+        // Knee pole is -Z: one foot planted ahead, the other behind
+        const left = find(pose, 'leftFoot').position.z;
+        const right = find(pose, 'rightFoot').position.z;
+        expect(Math.sign(left)).toBe(-Math.sign(right));
+        expect(Math.sign(find(pose, 'leftElbow').position.z)).toBe(Math.sign(right));
+    });
+
+    it('should travel forward unless in place', () => {
+        const clip = generateGait(base, { ...WALK_GAIT, inPlace: false });
+        const start = clip.keyframes[0].skeleton.root.position;
+        const end = clip.keyframes[clip.keyframes.length - 1].skeleton.root.position;
+        const steps = clip.duration / (60 / WALK_GAIT.cadence);
+        expect(start.z - end.z).toBeCloseTo(steps * WALK_GAIT.stride);
+    });
+
+    it('should keep its extracted travel when retimed', () => {
+        const clip = extractRootMotion(generateGait(base, { ...WALK_GAIT, inPlace: false }));
+        const travel = -sampleRootMotion(clip, clip.duration).z;
+        expect(travel).toBeGreaterThan(0);
+
+        const slow = retimeClip(clip, 0.5);
+        expect(slow.duration).toBeCloseTo(clip.duration * 2);
+        expect(-sampleRootMotion(slow, slow.duration).z).toBeCloseTo(travel);
+        expect(-sampleRootMotion(slow, clip.duration).z).toBeCloseTo(-sampleRootMotion(clip, clip.duration / 2).z);
+    });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { StickmanNode } from '../StickmanNode';
+import { StickmanNode, parseNodeStyle } from '../StickmanNode';
 import { StickmanSkeleton } from '../StickmanSkeleton';
-import { Vector3 } from 'three';
+import { Vector3, Quaternion } from 'three';
 
 describe('StickmanNode', () => {
     it('should create a node with correct properties', () => {
@@ -29,6 +29,32 @@ describe('StickmanNode', () => {
         // So ID IS preserved.
         expect(clone.id).toBe(root.id);
     });
+
+    it('should clone styles without sharing them', () => {
+        const node = new StickmanNode('arm', new Vector3());
+        node.style = { color: '#ff0000', strokeWidth: 0.2 };
+
+        const clone = node.clone();
+        clone.style!.color = '#00ff00';
+        expect(node.style.color).toBe('#ff0000');
+        expect(clone.style!.strokeWidth).toBe(0.2);
+    });
+
+    it('should default the head shape from the joint name', () => {
+        expect(new StickmanNode('head', new Vector3()).headShape).toBe('circle');
+        expect(new StickmanNode('hip', new Vector3()).headShape).toBeNull();
+
+        const node = new StickmanNode('hip', new Vector3());
+        node.style = { headShape: 'square' };
+        expect(node.headShape).toBe('square');
+    });
+
+    it('should parse styles and drop unknown values', () => {
+        expect(parseNodeStyle(undefined)).toBeUndefined();
+        expect(parseNodeStyle({ color: 3, headShape: 'star' })).toBeUndefined();
+        expect(parseNodeStyle({ color: '#123456', hidden: true, strokeWidth: 0.05 }))
+            .toEqual({ color: '#123456', hidden: true, strokeWidth: 0.05 });
+    });
 });
 
 describe('StickmanSkeleton', () => {
@@ -47,3 +73,75 @@ describe('StickmanSkeleton', () => {
         expect(skeleton.root.findNode(skeleton.root.id)).toBe(skeleton.root);
     });
 });
+
+describe('StickmanSkeleton forward kinematics', () => {
+    const findByName = (skeleton: StickmanSkeleton, name: string) =>
+        skeleton.nodes.find(n => n.name === name)!;
+
+    it('should derive bone lengths from the default pose', () => {
+        const skeleton = new StickmanSkeleton();
+        expect(findByName(skeleton, 'torso').length).toBeCloseTo(0.5);
+        expect(findByName(skeleton, 'leftFoot').length).toBeCloseTo(0.5);
+    });
+
+    it('should reproduce world positions from rotations and lengths', () => {
+        const skeleton = new StickmanSkeleton();
+        const before = skeleton.nodes.map(n => n.position.clone());
+        skeleton.updateWorldPositions();
+        skeleton.nodes.forEach((n, i) => expect(n.position.distanceTo(before[i])).toBeLessThan(1e-6));
+    });
+
+    it('should swing the whole subtree when the root rotates', () => {
+        const skeleton = new StickmanSkeleton();
+        const head = findByName(skeleton, 'head');
+        const hip = skeleton.root;
+        const headDistance = head.position.distanceTo(hip.position);
+
+        // Rotate 90 degrees around Z: the head should end up on the -X side of the hip
+        skeleton.setWorldRotation(hip.id, new Quaternion().setFromAxisAngle(new Vector3(0, 0, 1), Math.PI / 2));
+        expect(head.position.x).toBeCloseTo(hip.position.x - headDistance);
+        expect(head.position.y).toBeCloseTo(hip.position.y);
+    });
+
+    it('should keep bone lengths when a joint is aimed', () => {
+        const skeleton = new StickmanSkeleton();
+        const elbow = findByName(skeleton, 'leftElbow');
+        const hand = findByName(skeleton, 'leftHand');
+        const neck = findByName(skeleton, 'neck');
+        const upperArm = elbow.position.distanceTo(neck.position);
+        const forearm = hand.position.distanceTo(elbow.position);
+
+        skeleton.aimNode(elbow.id, new Vector3(-3, 5, 1));
+        expect(elbow.position.distanceTo(neck.position)).toBeCloseTo(upperArm);
+        expect(hand.position.distanceTo(elbow.position)).toBeCloseTo(forearm);
+    });
+});
+
+describe('StickmanSkeleton interpolation', () => {
+    const swingArm = () => {
+        const from = new StickmanSkeleton();
+        const to = from.clone();
+        const elbow = to.nodes.find(n => n.name === 'leftElbow')!;
+        const neck = to.nodes.find(n => n.name === 'neck')!;
+        // Swing the upper arm to the opposite side of the neck
+        to.aimNode(elbow.id, neck.position.clone().sub(elbow.position).add(neck.position));
+        return { from, to, elbowId: elbow.id, neckId: neck.id };
+    };
+
+    it('should keep bone lengths halfway through a swing in rotation mode', () => {
+        const { from, to, elbowId, neckId } = swingArm();
+        const mid = from.lerp(to, 0.5);
+        const upperArm = from.root.findNode(elbowId)!.length;
+        const elbow = mid.root.findNode(elbowId)!;
+        const neck = mid.root.findNode(neckId)!;
+        expect(elbow.position.distanceTo(neck.position)).toBeCloseTo(upperArm);
+    });
+
+    it('should still support linear position interpolation', () => {
+        const { from, to, elbowId } = swingArm();
+        const mid = from.lerp(to, 0.5, 'position');
+        const expected = from.root.findNode(elbowId)!.position.clone()
+            .lerp(to.root.findNode(elbowId)!.position, 0.5);
+        expect(mid.root.findNode(elbowId)!.position.distanceTo(expected)).toBeLessThan(1e-6);
+    });
+});
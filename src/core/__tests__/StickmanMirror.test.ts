@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { StickmanSkeleton } from '../StickmanSkeleton';
+import { getMirrorName, findMirrorPairs, mirrorPose, mirrorPosition } from '../StickmanMirror';
+import { poseNode } from '../StickmanPosing';
+
+const byName = (skeleton: StickmanSkeleton, name: string) => skeleton.nodes.find(n => n.name === name)!;
+
+describe('getMirrorName', () => {
+    it('should swap common side conventions', () => {
+        expect(getMirrorName('leftHand')).toBe('rightHand');
+        expect(getMirrorName('RightFoot')).toBe('LeftFoot');
+        expect(getMirrorName('arm.L')).toBe('arm.R');
+        expect(getMirrorName('r_knee')).toBe('l_knee');
+        expect(getMirrorName('neck')).toBeNull();
+    });
+});
+
+describe('mirrorPose', () => {
+    it('should pair the default limbs', () => {
+        const skeleton = new StickmanSkeleton();
+        const pairs = findMirrorPairs(skeleton.root);
+        expect(pairs.get(byName(skeleton, 'leftHand').id)).toBe(byName(skeleton, 'rightHand').id);
+        expect(pairs.has(byName(skeleton, 'head').id)).toBe(false);
+    });
+
+    it('should swap and reflect left and right poses', () => {
+        const skeleton = new StickmanSkeleton();
+        const leftHand = byName(skeleton, 'leftHand');
+        const rightHand = byName(skeleton, 'rightHand');
+        poseNode(skeleton, leftHand.id, new Vector3(-0.5, 2.2, 0.3));
+        const posedLeft = leftHand.position.clone();
+        const restRight = rightHand.position.clone();
+
+        mirrorPose(skeleton);
+        expect(rightHand.position.distanceTo(new Vector3(-posedLeft.x, posedLeft.y, posedLeft.z))).toBeLessThan(1e-6);
+        expect(leftHand.position.distanceTo(new Vector3(-restRight.x, restRight.y, restRight.z))).toBeLessThan(1e-6);
+    });
+
+    it('should reflect positions across the plane through the root', () => {
+        const skeleton = new StickmanSkeleton();
+        skeleton.updateNodePosition(skeleton.root.id, new Vector3(1, 1, 0));
+        expect(mirrorPosition(skeleton, new Vector3(1.5, 2, 0.2)).distanceTo(new Vector3(0.5, 2, 0.2))).toBeLessThan(1e-6);
+    });
+});
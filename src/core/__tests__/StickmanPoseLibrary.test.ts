@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { StickmanSkeleton } from '../StickmanSkeleton';
+import { createPose, applyPose, serializePoseLibrary, parsePoseLibrary } from '../StickmanPoseLibrary';
+import { copyPoseToText, parsePoseClipboard, pastePose, POSE_CLIPBOARD_VERSION } from '../StickmanClipboard';
+import { getSubtreeChannels } from '../StickmanChannels';
+import { poseNode } from '../StickmanPosing';
+
+const byName = (skeleton: StickmanSkeleton, name: string) => skeleton.nodes.find(n => n.name === name)!;
+
+// Hand raised and hip lowered into a crouch
+const makePosed = () => {
+    const skeleton = new StickmanSkeleton();
+    poseNode(skeleton, byName(skeleton, 'leftHand').id, new Vector3(-0.5, 2.2, 0.3));
+    poseNode(skeleton, skeleton.root.id, new Vector3(0, 0.8, 0));
+    poseNode(skeleton, byName(skeleton, 'leftFoot').id, new Vector3(-0.3, 0, 0));
+    poseNode(skeleton, byName(skeleton, 'rightFoot').id, new Vector3(0.3, 0, 0));
+    return skeleton;
+};
+
+describe('pose library', () => {
+    it('should apply a saved pose to a skeleton with other joint IDs', () => {
+        const posed = makePosed();
+        const pose = createPose(posed, 'Crouch');
+        const target = new StickmanSkeleton();
+        const joints = applyPose(target, pose);
+
+        expect(joints).toHaveLength(target.nodes.length);
+        expect(target.root.position.y).toBeCloseTo(0.8);
+        expect(byName(target, 'leftHand').position.distanceTo(byName(posed, 'leftHand').position)).toBeLessThan(1e-6);
+        expect(byName(target, 'rightFoot').position.y).toBeCloseTo(0);
+    });
+
+    it('should only drive the joints it stores', () => {
+        const posed = makePosed();
+        const hand = byName(posed, 'leftHand');
+        const pose = createPose(posed, 'Wave', [hand.id]);
+        expect(pose.rootHeight).toBeUndefined();
+
+        const target = new StickmanSkeleton();
+        const knee = byName(target, 'leftKnee').position.clone();
+        expect(applyPose(target, pose)).toEqual([byName(target, 'leftHand').id]);
+        expect(byName(target, 'leftKnee').position.distanceTo(knee)).toBeLessThan(1e-6);
+        expect(target.root.position.y).toBeCloseTo(1);
+    });
+
+    it('should blend part of the way and keep bone lengths', () => {
+        const pose = createPose(makePosed(), 'Crouch');
+        const target = new StickmanSkeleton();
+        const lengths = target.nodes.map(n => n.length);
+        applyPose(target, pose, 0.5);
+
+        expect(target.root.position.y).toBeCloseTo(0.9);
+        target.nodes.forEach((node, i) => expect(node.length).toBeCloseTo(lengths[i]));
+    });
+
+    it('should round-trip through its own file format', () => {
+        const pose = createPose(makePosed(), 'Crouch');
+        const [loaded] = parsePoseLibrary(serializePoseLibrary([pose]));
+        expect(loaded).toEqual(pose);
+        expect(pose.thumbnail).toMatch(/^M/);
+        expect(() => parsePoseLibrary('{"clips": []}')).toThrow();
+    });
+});
+
+describe('pose clipboard', () => {
+    it('should paste a copied arm into a skeleton with other joint IDs', () => {
+        const posed = makePosed();
+        const arm = byName(posed, 'leftElbow');
+        const text = copyPoseToText(posed, getSubtreeChannels(arm));
+
+        const target = new StickmanSkeleton();
+        const joints = pastePose(target, parsePoseClipboard(text)!);
+        expect(joints).toEqual([byName(target, 'leftElbow').id, byName(target, 'leftHand').id]);
+        expect(byName(target, 'leftHand').position.distanceTo(new Vector3(-0.5, 2.2, 0.3))).toBeLessThan(1e-6);
+    });
+
+    it('should paste mirrored onto the other side', () => {
+        const posed = makePosed();
+        const pose = parsePoseClipboard(copyPoseToText(posed, getSubtreeChannels(byName(posed, 'leftElbow'))))!;
+        const target = new StickmanSkeleton();
+        const leftHand = byName(target, 'leftHand').position.clone();
+
+        const joints = pastePose(target, pose, true);
+        expect(joints).toEqual([byName(target, 'rightElbow').id, byName(target, 'rightHand').id]);
+        expect(byName(target, 'rightHand').position.distanceTo(new Vector3(0.5, 2.2, 0.3))).toBeLessThan(1e-6);
+        expect(byName(target, 'leftHand').position.distanceTo(leftHand)).toBeLessThan(1e-6);
+    });
+
+    it('should ignore other clipboard contents and newer versions', () => {
+        expect(parsePoseClipboard('hello')).toBeNull();
+        const text = copyPoseToText(new StickmanSkeleton());
+        expect(parsePoseClipboard(text)).not.toBeNull();
+        expect(parsePoseClipboard(JSON.stringify({ ...JSON.parse(text), version: POSE_CLIPBOARD_VERSION + 1 }))).toBeNull();
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { StickmanSkeleton } from '../StickmanSkeleton';
+import { StickmanNode } from '../StickmanNode';
+import { createRig, parseRig } from '../StickmanRig';
+import { poseNode } from '../StickmanPosing';
+import { clampDirection, createDefaultConstraint } from '../StickmanConstraints';
+
+const byName = (skeleton: StickmanSkeleton, name: string) => skeleton.nodes.find(n => n.name === name)!;
+
+describe('StickmanRig', () => {
+    it('should infer chains and roles from the default skeleton', () => {
+        const skeleton = new StickmanSkeleton();
+        const foot = byName(skeleton, 'leftFoot');
+        const knee = byName(skeleton, 'leftKnee');
+
+        expect(skeleton.rig.rootId).toBe(skeleton.root.id);
+        expect(skeleton.rig.roles[foot.id]).toBe('ikEffector');
+        expect(skeleton.rig.roles[knee.id]).toBe('ikJoint');
+        expect(skeleton.rig.roles[byName(skeleton, 'head').id]).toBe('fk');
+        expect(skeleton.rig.chains).toHaveLength(4);
+        expect(skeleton.rig.chains.find(c => c.effectorId === foot.id)?.rootId).toBe(skeleton.root.id);
+    });
+
+    it('should treat extra joints as FK', () => {
+        const skeleton = new StickmanSkeleton();
+        const tail = new StickmanNode('tail', new Vector3(0, 0.8, -0.4));
+        skeleton.root.addChild(tail);
+        skeleton.updateLocalTransforms();
+        const rig = createRig(skeleton.root);
+        expect(rig.roles[tail.id]).toBe('fk');
+    });
+
+    it('should drop entries referencing unknown joints when parsing', () => {
+        const skeleton = new StickmanSkeleton();
+        const rig = parseRig({ rootId: 'missing', roles: { missing: 'fk' }, chains: [{ rootId: 'a', jointId: 'b', effectorId: 'c' }] }, skeleton.root);
+        expect(rig.rootId).toBe(skeleton.root.id);
+        expect(rig.roles.missing).toBeUndefined();
+        expect(rig.chains).toHaveLength(0);
+    });
+});
+
+describe('poseNode', () => {
+    it('should solve IK for effectors and keep bone lengths', () => {
+        const skeleton = new StickmanSkeleton();
+        const foot = byName(skeleton, 'leftFoot');
+        const knee = byName(skeleton, 'leftKnee');
+        const target = new Vector3(-0.2, 0.3, 0.3);
+
+        poseNode(skeleton, foot.id, target);
+        expect(foot.position.distanceTo(target)).toBeLessThan(1e-4);
+        expect(knee.position.distanceTo(skeleton.root.position)).toBeCloseTo(knee.length);
+        expect(foot.position.distanceTo(knee.position)).toBeCloseTo(foot.length);
+        // Knees bend backward (towards -Z)
+        expect(knee.position.z).toBeLessThan(target.z);
+    });
+
+    it('should translate the whole skeleton when the root is dragged', () => {
+        const skeleton = new StickmanSkeleton();
+        const head = byName(skeleton, 'head');
+        const headBefore = head.position.clone();
+        poseNode(skeleton, skeleton.root.id, new Vector3(1, 1, 0));
+        expect(head.position.x).toBeCloseTo(headBefore.x + 1);
+    });
+});
+
+describe('StickmanSkeleton topology editing', () => {
+    it('should add a joint at its rest offset', () => {
+        const skeleton = new StickmanSkeleton();
+        const head = byName(skeleton, 'head');
+        const hat = new StickmanNode('hat', new Vector3(), undefined, undefined, 0.2);
+
+        expect(skeleton.addJoint(head.id, hat)).toBe(true);
+        // Identity rotation continues the neck -> head direction (straight up)
+        expect(hat.position.distanceTo(head.position.clone().add(new Vector3(0, 0.2, 0)))).toBeLessThan(1e-6);
+        expect(skeleton.rig.roles[hat.id]).toBe('fk');
+    });
+
+    it('should remove a subtree and the IK chains that used it', () => {
+        const skeleton = new StickmanSkeleton();
+        const knee = byName(skeleton, 'leftKnee');
+        const foot = byName(skeleton, 'leftFoot');
+
+        expect(skeleton.removeJoint(knee.id)).toBe(true);
+        expect(skeleton.root.findNode(foot.id)).toBeNull();
+        expect(skeleton.rig.chains.some(c => c.effectorId === foot.id)).toBe(false);
+        expect(skeleton.removeJoint(skeleton.root.id)).toBe(false);
+    });
+
+    it('should reparent while keeping the world position', () => {
+        const skeleton = new StickmanSkeleton();
+        const hand = byName(skeleton, 'leftHand');
+        const head = byName(skeleton, 'head');
+        const before = hand.position.clone();
+
+        expect(skeleton.reparentJoint(hand.id, head.id)).toBe(true);
+        expect(skeleton.getParent(hand.id)).toBe(head);
+        expect(hand.position.distanceTo(before)).toBeLessThan(1e-6);
+        expect(hand.length).toBeCloseTo(before.distanceTo(head.position));
+        // The hand no longer ends the elbow chain
+        expect(skeleton.rig.roles[hand.id]).toBe('fk');
+    });
+
+    it('should refuse to reparent a joint into its own subtree', () => {
+        const skeleton = new StickmanSkeleton();
+        const knee = byName(skeleton, 'leftKnee');
+        const foot = byName(skeleton, 'leftFoot');
+        expect(skeleton.reparentJoint(knee.id, foot.id)).toBe(false);
+    });
+});
+
+describe('Joint constraints', () => {
+    it('should clamp a hinge into its plane and range', () => {
+        const constraint = { type: 'hinge' as const, axis: [1, 0, 0] as [number, number, number], minAngle: 0, maxAngle: Math.PI / 2 };
+        // Bending the wrong way (towards -Z) is clamped back to straight
+        const clamped = clampDirection(constraint, new Vector3(0, 1, -1).normalize())!;
+        expect(clamped.distanceTo(new Vector3(0, 1, 0))).toBeLessThan(1e-6);
+        // Inside the range: untouched
+        expect(clampDirection(constraint, new Vector3(0, 1, 1).normalize())).toBeNull();
+    });
+
+    it('should clamp a cone to its angle', () => {
+        const clamped = clampDirection({ type: 'cone', coneAngle: Math.PI / 4 }, new Vector3(1, 0, 0))!;
+        expect(clamped.angleTo(new Vector3(0, 1, 0))).toBeCloseTo(Math.PI / 4);
+    });
+
+    it('should stop a knee from bending forwards during IK', () => {
+        const skeleton = new StickmanSkeleton();
+        const knee = byName(skeleton, 'leftKnee');
+        const foot = byName(skeleton, 'leftFoot');
+        // Point the pole forwards so IK alone would bend the knee the wrong way; the hinge must correct it
+        skeleton.rig.chains.find(c => c.jointId === knee.id)!.pole = [0, 0, 1];
+        skeleton.rig.constraints[knee.id] = createDefaultConstraint('hinge', 'leftKnee');
+
+        poseNode(skeleton, foot.id, new Vector3(-0.3, 0.3, 0));
+        const local = new Vector3(0, 1, 0).applyQuaternion(foot.rotation);
+        expect(local.z).toBeLessThanOrEqual(1e-6);
+        expect(foot.position.distanceTo(knee.position)).toBeCloseTo(foot.length);
+    });
+});
@@ -0,0 +1,80 @@
+import { useRef, useMemo, useState, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { ParsedStickmanProject } from './parser';
+import { StickmanPlayer, StickmanPlayerHandle, StickmanPlayerLayer } from './StickmanPlayer';
+import { StickmanStateMachine, StickmanStateMachineDefinition, StickmanParams } from '../core/StickmanStateMachine';
+import { StickmanAnimationEvent } from '../core/StickmanMixer';
+import { StickmanRootMotionDelta } from '../core/StickmanRootMotion';
+
+// Runs a state machine against a StickmanPlayer: pass the returned ref to the player. Must be used
+// inside a <Canvas>. Keep `definition` stable (a constant or memoized), a new one restarts the machine.
+export const useStickmanStateMachine = (
+    projectData: ParsedStickmanProject,
+    definition: StickmanStateMachineDefinition,
+    params: StickmanParams,
+    isPlaying = true
+) => {
+    const playerRef = useRef<StickmanPlayerHandle>(null);
+    const machine = useMemo(() => new StickmanStateMachine(definition, projectData.clips), [definition, projectData]);
+    const [state, setState] = useState(machine.state);
+
+    // Read in the frame loop, so parameter changes don't need a re-render to take effect
+    const paramsRef = useRef(params);
+    paramsRef.current = params;
+
+    useEffect(() => {
+        playerRef.current?.play(machine.clip);
+        setState(machine.state);
+    }, [machine]);
+
+    useFrame((_state, delta) => {
+        if (!isPlaying) return;
+        const transition = machine.update(delta, paramsRef.current);
+        if (transition) {
+            // A new state starts its clip over, even when the previous state played the same one,
+            // so exit times line up with the animation
+            playerRef.current?.play(machine.clip, transition.duration ?? 0, true);
+            setState(machine.state);
+        }
+    });
+
+    return { playerRef, state };
+};
+
+interface StickmanAnimatorProps {
+    projectData: ParsedStickmanProject;
+    machine: StickmanStateMachineDefinition;
+    params: StickmanParams;
+    isPlaying: boolean;
+    scale?: number;
+    layers?: StickmanPlayerLayer[];
+    onStateChange?: (state: string) => void;
+    onEvent?: (event: StickmanAnimationEvent) => void;
+    onRootMotion?: (delta: StickmanRootMotionDelta) => void;
+    applyRootMotion?: boolean;
+}
+
+// StickmanPlayer driven by a state machine
+export const StickmanAnimator = ({ projectData, machine, params, isPlaying, scale, layers, onStateChange, onEvent, onRootMotion, applyRootMotion }: StickmanAnimatorProps) => {
+    const { playerRef, state } = useStickmanStateMachine(projectData, machine, params, isPlaying);
+
+    // Only state changes notify, not new callbacks
+    const onStateChangeRef = useRef(onStateChange);
+    onStateChangeRef.current = onStateChange;
+    useEffect(() => {
+        onStateChangeRef.current?.(state);
+    }, [state]);
+
+    return (
+        <StickmanPlayer
+            ref={playerRef}
+            projectData={projectData}
+            isPlaying={isPlaying}
+            scale={scale}
+            layers={layers}
+            onEvent={onEvent}
+            onRootMotion={onRootMotion}
+            applyRootMotion={applyRootMotion}
+        />
+    );
+};
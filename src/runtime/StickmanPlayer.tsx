@@ -1,33 +1,58 @@
-import React, { useRef, useMemo } from 'react';
+import { useRef, useMemo, useEffect, useImperativeHandle, forwardRef } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Sphere } from '@react-three/drei';
-import { Vector3, Quaternion } from 'three';
+import { Sphere, Box } from '@react-three/drei';
+import { Vector3, Quaternion, Group } from 'three';
 import { StickmanNode } from '../core/StickmanNode';
+import { StickmanSkeleton } from '../core/StickmanSkeleton';
 import { ParsedStickmanProject } from './parser';
+import { StickmanMixer, StickmanLayerOptions, StickmanAnimationEvent } from '../core/StickmanMixer';
+import { StickmanRootMotionDelta } from '../core/StickmanRootMotion';
 
 // --- Pure Visual Components (No Store Dependencies) ---
+// Geometry is unit-sized and scaled every frame, so animated head and stroke sizes show while
+// playing without re-rendering the tree.
 
-const JointNode = ({ node, radius }: { node: StickmanNode, radius: number }) => {
+// Radius of a joint: heads use the skeleton's head size, other joints the stroke width
+const getJointRadius = (node: StickmanNode, skeleton: StickmanSkeleton) =>
+  node.headShape ? skeleton.headRadius : (node.style?.strokeWidth ?? skeleton.strokeWidth);
+
+const JointNode = ({ node, skeleton, color, square }: { node: StickmanNode, skeleton: StickmanSkeleton, color: string, square: boolean }) => {
   const meshRef = useRef<THREE.Mesh>(null);
 
   useFrame(() => {
     if (meshRef.current) {
         meshRef.current.position.copy(node.position);
+        meshRef.current.scale.setScalar(getJointRadius(node, skeleton));
     }
   });
 
+  const radius = getJointRadius(node, skeleton);
+  if (square) {
+    return (
+      <Box
+          ref={meshRef}
+          position={node.position}
+          scale={radius}
+          args={[2, 2, 2]}
+      >
+        <meshStandardMaterial color={color} />
+      </Box>
+    );
+  }
+
   return (
     <Sphere
         ref={meshRef}
         position={node.position}
-        args={[radius, 32, 32]}
+        scale={radius}
+        args={[1, 32, 32]}
     >
-      <meshStandardMaterial color="white" />
+      <meshStandardMaterial color={color} />
     </Sphere>
   );
 };
 
-const BoneSegment = ({ startNode, endNode, thickness }: { startNode: StickmanNode, endNode: StickmanNode, thickness: number }) => {
+const BoneSegment = ({ startNode, endNode, skeleton, color }: { startNode: StickmanNode, endNode: StickmanNode, skeleton: StickmanSkeleton, color: string }) => {
     const meshRef = useRef<THREE.Mesh>(null);
     const axis = useMemo(() => new Vector3(0, 1, 0), []);
     const startVec = useMemo(() => new Vector3(), []);
@@ -41,36 +66,46 @@ const BoneSegment = ({ startNode, endNode, thickness }: { startNode: StickmanNod
             startVec.copy(startNode.position);
             endVec.copy(endNode.position);
             const distance = startVec.distanceTo(endVec);
+            const thickness = endNode.style?.strokeWidth ?? skeleton.strokeWidth;
             midVec.addVectors(startVec, endVec).multiplyScalar(0.5);
             diffVec.subVectors(endVec, startVec).normalize();
             quaternion.setFromUnitVectors(axis, diffVec);
             meshRef.current.position.copy(midVec);
             meshRef.current.quaternion.copy(quaternion);
-            meshRef.current.scale.set(1, distance, 1);
+            meshRef.current.scale.set(thickness, distance, thickness);
         }
     });
 
     return (
         <mesh ref={meshRef}>
-            <cylinderGeometry args={[thickness, thickness, 1, 16]} />
-            <meshStandardMaterial color="white" />
+            <cylinderGeometry args={[1, 1, 1, 16]} />
+            <meshStandardMaterial color={color} />
         </mesh>
     );
 };
 
-const StickmanRecursive = ({ node, headRadius, strokeWidth }: { node: StickmanNode, headRadius: number, strokeWidth: number }) => {
-    const radius = node.name === 'head' ? headRadius : strokeWidth;
-
+const StickmanRecursive = ({ node, skeleton }: { node: StickmanNode, skeleton: StickmanSkeleton }) => {
     return (
         <>
-            <JointNode
-                node={node}
-                radius={radius}
-            />
+            {!node.style?.hidden && (
+                <JointNode
+                    node={node}
+                    skeleton={skeleton}
+                    color={node.style?.color || 'white'}
+                    square={node.headShape === 'square'}
+                />
+            )}
             {node.children.map((child) => (
                 <group key={child.id}>
-                    <BoneSegment startNode={node} endNode={child} thickness={strokeWidth} />
-                    <StickmanRecursive node={child} headRadius={headRadius} strokeWidth={strokeWidth} />
+                    {!child.style?.hidden && (
+                        <BoneSegment
+                            startNode={node}
+                            endNode={child}
+                            skeleton={skeleton}
+                            color={child.style?.color || 'white'}
+                        />
+                    )}
+                    <StickmanRecursive node={child} skeleton={skeleton} />
                 </group>
             ))}
         </>
@@ -79,102 +114,97 @@ const StickmanRecursive = ({ node, headRadius, strokeWidth }: { node: StickmanNo
 
 // --- Player Component ---
 
+// Layers on top of the base clip, see StickmanMixer
+export type StickmanPlayerLayer = StickmanLayerOptions;
+
+export interface StickmanPlayerHandle {
+    // Switch to a clip (name or ID), crossfading over `fadeDuration` seconds. The clip already
+    // playing only starts over with `restart`.
+    play: (clip: string, fadeDuration?: number, restart?: boolean) => boolean;
+    setLayers: (layers: StickmanPlayerLayer[]) => void;
+    getTime: () => number;
+}
+
 interface StickmanPlayerProps {
     projectData: ParsedStickmanProject;
     isPlaying: boolean;
     scale?: number;
-    loop?: boolean;
+    loop?: boolean; // Overrides the loop setting the clips were saved with
+    clip?: string; // Name or ID of the base clip. Defaults to the first clip
+    crossfade?: number; // Seconds to blend into a new `clip`. Defaults to a cut
+    layers?: StickmanPlayerLayer[];
+    onEvent?: (event: StickmanAnimationEvent) => void; // Called for every clip marker playback crosses
+    // Clips with an extracted root-motion track play in place. Their travel is reported every frame
+    // (scaled, relative to the character's heading) and, with applyRootMotion, moves and turns the player.
+    onRootMotion?: (delta: StickmanRootMotionDelta) => void;
+    applyRootMotion?: boolean;
 }
 
-export const StickmanPlayer: React.FC<StickmanPlayerProps> = ({
+const UP = new Vector3(0, 1, 0);
+
+export const StickmanPlayer = forwardRef<StickmanPlayerHandle, StickmanPlayerProps>(({
     projectData,
     isPlaying,
     scale = 1,
-    loop = true
-}) => {
+    loop,
+    clip,
+    crossfade = 0,
+    layers,
+    onEvent,
+    onRootMotion,
+    applyRootMotion = false
+}, ref) => {
     // Clone the skeleton so we don't mutate the prop directly and to have a local mutable instance
     const skeleton = useMemo(() => projectData.currentSkeleton.clone(), [projectData]);
-
-    // We assume the first clip is the one to play
-    const currentClip = projectData.clips.length > 0 ? projectData.clips[0] : null;
-
-    // Local time tracking
-    const timeRef = useRef(0);
+    const mixer = useMemo(() => new StickmanMixer(projectData.clips), [projectData]);
+
+    // A new project starts on its clip right away (nothing to fade from); later `clip` changes crossfade
+    const clipRef = clip ?? projectData.clips[0]?.id;
+    useEffect(() => {
+        if (clipRef) mixer.play(clipRef, crossfade);
+    }, [mixer, clipRef, crossfade]);
+
+    useEffect(() => {
+        if (layers) mixer.setLayers(layers);
+    }, [mixer, layers]);
+
+    useImperativeHandle(ref, () => ({
+        play: (target, fadeDuration = 0, restart = false) => mixer.play(target, fadeDuration, restart),
+        setLayers: (next) => mixer.setLayers(next),
+        getTime: () => mixer.time,
+    }), [mixer]);
+
+    const onEventRef = useRef(onEvent);
+    onEventRef.current = onEvent;
+    const onRootMotionRef = useRef(onRootMotion);
+    onRootMotionRef.current = onRootMotion;
+    const motionRef = useRef<Group>(null);
 
     useFrame((_state, delta) => {
-        if (isPlaying && currentClip && currentClip.keyframes.length > 0) {
-            let newTime = timeRef.current + delta;
-
-            if (newTime > currentClip.duration) {
-                if (loop) {
-                    newTime = 0;
-                } else {
-                    newTime = currentClip.duration;
-                }
-            }
-            timeRef.current = newTime;
-
-            if (currentClip.keyframes.length >= 2) {
-                // Interpolation logic
-                let prevKeyframe = currentClip.keyframes[0];
-                let nextKeyframe = currentClip.keyframes[currentClip.keyframes.length - 1];
-
-                for (let i = 0; i < currentClip.keyframes.length - 1; i++) {
-                    if (currentClip.keyframes[i].timestamp <= newTime && currentClip.keyframes[i+1].timestamp >= newTime) {
-                        prevKeyframe = currentClip.keyframes[i];
-                        nextKeyframe = currentClip.keyframes[i+1];
-                        break;
-                    }
-                }
-
-                if (prevKeyframe && nextKeyframe) {
-                    // Handle edge case where timestamps might be equal
-                    const range = nextKeyframe.timestamp - prevKeyframe.timestamp;
-                    const alpha = range > 0.0001 ? (newTime - prevKeyframe.timestamp) / range : 0;
-
-                    // We can use the skeleton's lerp method, but it returns a NEW skeleton.
-                    // We want to update our CURRENT skeleton's nodes in place to avoid React re-renders.
-                    // So we do the lerp calculation but copy positions to 'skeleton'.
-
-                    // Actually, StickmanSkeleton.lerp returns a new skeleton.
-                    // Let's create a temporary lerped skeleton (computationally expensive? maybe not for one stickman).
-                    // Or ideally we would have a 'lerpInto' method.
-                    // But since we can't modify core, we will use the existing lerp and copy positions.
-
-                    const interpolated = prevKeyframe.skeleton.lerp(nextKeyframe.skeleton, alpha);
-                    const targetNodes = interpolated.getAllNodes();
-                    const currentNodes = skeleton.getAllNodes();
-
-                    for(let i=0; i<currentNodes.length; i++) {
-                        const target = targetNodes.find(n => n.id === currentNodes[i].id);
-                        if (target) {
-                            currentNodes[i].position.copy(target.position);
-                        }
-                    }
-
-                    // Also update global props if they animate (though usually constant per clip in this editor)
-                    skeleton.headRadius = interpolated.headRadius;
-                    skeleton.strokeWidth = interpolated.strokeWidth;
-                }
-            } else if (currentClip.keyframes.length === 1) {
-                // Static pose
-                 const targetNodes = currentClip.keyframes[0].skeleton.getAllNodes();
-                 const currentNodes = skeleton.getAllNodes();
-                 for(let i=0; i<currentNodes.length; i++) {
-                     const target = targetNodes.find(n => n.id === currentNodes[i].id);
-                     if (target) currentNodes[i].position.copy(target.position);
-                 }
+        if (!isPlaying) return;
+        const events = mixer.update(delta, loop);
+        events.forEach(event => onEventRef.current?.(event));
+
+        const motion = mixer.rootMotion;
+        if (motion.yaw !== 0 || motion.translation.lengthSq() > 0) {
+            const delta = { translation: motion.translation.clone().multiplyScalar(scale), yaw: motion.yaw };
+            onRootMotionRef.current?.(delta);
+            if (applyRootMotion && motionRef.current) {
+                const group = motionRef.current;
+                group.position.add(delta.translation.clone().applyAxisAngle(UP, group.rotation.y));
+                group.rotation.y += delta.yaw;
             }
         }
+        // Writes into our local instance in place to avoid React re-renders; joint sizes included
+        mixer.evaluate(skeleton);
     });
 
     return (
-        <group scale={scale}>
-            <StickmanRecursive
-                node={skeleton.root}
-                headRadius={skeleton.headRadius}
-                strokeWidth={skeleton.strokeWidth}
-            />
+        <group ref={motionRef}>
+            <group scale={scale}>
+                <StickmanRecursive node={skeleton.root} skeleton={skeleton} />
+            </group>
         </group>
     );
-};
+});
+StickmanPlayer.displayName = 'StickmanPlayer';
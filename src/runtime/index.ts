@@ -1,6 +1,20 @@
 export * from './parser';
 export * from './StickmanPlayer';
+export * from './StickmanAnimator';
 // Re-export core types that consumers might need
-export type { StickmanSkeleton } from '../core/StickmanSkeleton';
+export type { StickmanSkeleton, StickmanInterpolationMode } from '../core/StickmanSkeleton';
 export type { StickmanNode } from '../core/StickmanNode';
-export type { StickmanClip, StickmanKeyframe } from '../core/StickmanKeyframe';
+export type {
+  StickmanClip, StickmanKeyframe, StickmanCurveMode, StickmanMarker, StickmanRootMotionSample
+} from '../core/StickmanKeyframe';
+export type { StickmanRootMotionDelta } from '../core/StickmanRootMotion';
+export type { StickmanEasing, StickmanEasingType } from '../core/StickmanEasing';
+export type {
+  StickmanJointMask, StickmanLayerMode, StickmanLayerOptions, StickmanAnimationEvent
+} from '../core/StickmanMixer';
+export { StickmanMixer } from '../core/StickmanMixer';
+export type {
+  StickmanStateMachineDefinition, StickmanAnimationState, StickmanTransition, StickmanCondition,
+  StickmanConditionOperator, StickmanParams, StickmanParamValue
+} from '../core/StickmanStateMachine';
+export { StickmanStateMachine } from '../core/StickmanStateMachine';
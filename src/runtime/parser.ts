@@ -1,12 +1,30 @@
 import { StickmanSkeleton } from '../core/StickmanSkeleton';
 import { StickmanClip } from '../core/StickmanKeyframe';
-import { StickmanNode } from '../core/StickmanNode';
+import { StickmanNode, parseNodeStyle } from '../core/StickmanNode';
+import { parseRig } from '../core/StickmanRig';
+import { parseEasing } from '../core/StickmanEasing';
+import { parseChannels } from '../core/StickmanChannels';
+import { parseMarkers } from '../core/StickmanMarkers';
+import { parseRootMotion } from '../core/StickmanRootMotion';
+import { sampleClip } from '../core/StickmanClipSampler';
+import { parseClipPlayback } from '../core/StickmanTimeline';
 import { Vector3 } from 'three';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface ParsedStickmanActor {
+  id: string;
+  name: string;
+  position: Vector3; // World offset of the character
+  clips: StickmanClip[];
+  currentSkeleton: StickmanSkeleton;
+}
+
 export interface ParsedStickmanProject {
+  // Active actor of the scene (or the only character of older files)
   clips: StickmanClip[];
   currentSkeleton: StickmanSkeleton;
+  // Every actor of the scene, active one included
+  actors: ParsedStickmanActor[];
   meta: {
     skin?: any;
     polygons?: any;
@@ -32,6 +50,7 @@ export function parseStickmanProject(json: string): ParsedStickmanProject {
         return {
             clips: [],
             currentSkeleton,
+            actors: [],
             meta: {
                 skin: data.skin,
                 polygons: data.polygons,
@@ -108,31 +127,42 @@ export function parseStickmanProject(json: string): ParsedStickmanProject {
                 (nodeData.position.z || 0) * SCALE
             );
         }
-        const node = new StickmanNode(nodeData.id || nodeData.name, pos, nodeData.id);
+        const node = new StickmanNode(nodeData.name || nodeData.id, pos, nodeData.id);
+        if (Array.isArray(nodeData.rot)) {
+            node.rotation.fromArray(nodeData.rot);
+        }
+        node.style = parseNodeStyle(nodeData.style);
         if (nodeData.children) {
             nodeData.children.forEach((childData: any) => node.addChild(reconstructNode(childData)));
         }
         return node;
     };
 
-    const reconstructedClips: StickmanClip[] = clipsData.map((clipData: any) => {
+    // Clips of one character. Scene files carry rig and sizes per actor, older files at the top level
+    const reconstructClips = (source: any): StickmanClip[] => (source.clips || []).map((clipData: any) => {
         const keyframes = (clipData.keyframes || []).map((kf: any) => {
             const skelData = kf.pose || kf.skeleton;
             // Scale radius and stroke width too
+            const root = reconstructNode(skelData.root || skelData);
             const skeleton = new StickmanSkeleton(
-                undefined,
-                (skelData.headRadius || data.headRadius || 0.1) * SCALE,
-                (skelData.strokeWidth || data.strokeWidth || 0.02) * SCALE
+                root,
+                (skelData.headRadius || source.headRadius || data.headRadius || 0.1) * SCALE,
+                (skelData.strokeWidth || source.strokeWidth || data.strokeWidth || 0.02) * SCALE,
+                parseRig(source.rig, root)
             );
-            skeleton.root = reconstructNode(skelData.root || skelData);
+            // Positions are authoritative on load; derive rotations and bone lengths from them
+            skeleton.updateLocalTransforms();
             return {
                 id: kf.id || uuidv4(),
                 timestamp: kf.timestamp || (kf.frameIndex ? kf.frameIndex / 30.0 : 0),
-                skeleton: skeleton
+                skeleton: skeleton,
+                easing: parseEasing(kf.easing),
+                channels: parseChannels(kf.channels)
             };
         });
+        // Scene files keep the duration set on the clip; legacy files end on their last key
         let duration = clipData.duration || 5.0;
-        if (keyframes.length > 0) {
+        if (keyframes.length > 0 && !(isSa3 && clipData.duration > 0)) {
              const maxTime = Math.max(...keyframes.map((k: any) => k.timestamp));
              duration = maxTime > 0 ? maxTime : 5.0;
         }
@@ -140,18 +170,37 @@ export function parseStickmanProject(json: string): ParsedStickmanProject {
             id: clipData.id || uuidv4(),
             name: clipData.name || "Imported Animation",
             duration: duration,
-            keyframes: keyframes
+            keyframes: keyframes,
+            interpolation: clipData.interpolation === 'position' ? 'position' : 'rotation',
+            curve: clipData.curve === 'spline' ? 'spline' : 'linear',
+            markers: parseMarkers(clipData.markers),
+            rootMotion: parseRootMotion(clipData.rootMotion),
+            ...parseClipPlayback(clipData)
         };
     });
 
-    const firstClip = reconstructedClips[0];
-    if (firstClip && firstClip.keyframes.length > 0) {
-        currentSkeleton = firstClip.keyframes[0].skeleton.clone();
-    }
+    const reconstructActor = (source: any, index: number): ParsedStickmanActor => {
+        const clips = reconstructClips(source);
+        const firstClip = clips[0];
+        return {
+            id: source.id || uuidv4(),
+            name: source.name || `Actor ${index + 1}`,
+            position: Array.isArray(source.position) ? new Vector3().fromArray(source.position) : new Vector3(),
+            clips,
+            currentSkeleton: (firstClip && sampleClip(firstClip, 0)) || new StickmanSkeleton()
+        };
+    };
+
+    const actors: ParsedStickmanActor[] = Array.isArray(data.actors) && data.actors.length > 0
+        ? data.actors.map(reconstructActor)
+        : [reconstructActor({ clips: clipsData, rig: data.rig }, 0)];
+    const activeActor = actors.find(a => a.id === data.activeActorId) || actors[0];
+    currentSkeleton = activeActor.currentSkeleton;
 
     return {
-        clips: reconstructedClips,
+        clips: activeActor.clips,
         currentSkeleton,
+        actors,
         meta: {
             skin: data.skin || null,
             polygons: data.polygons || null,
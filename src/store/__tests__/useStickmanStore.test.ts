@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Vector3 } from 'three';
+import type { useStickmanStore as StickmanStore } from '../useStickmanStore';
+import { findMirrorPairs } from '../../core/StickmanMirror';
+import { resolveJointWeights } from '../../core/StickmanMixer';
+import { parseStickmanProject } from '../../runtime/parser';
+import { getSubtreeChannels, getChannels, isWholeKeyframe } from '../../core/StickmanChannels';
+
+// The store is a module-level singleton: a fresh module gives a new project
+let useStickmanStore: typeof StickmanStore;
+const newProject = async () => {
+    vi.resetModules();
+    ({ useStickmanStore } = await import('../useStickmanStore'));
+};
+beforeEach(newProject);
+
+const store = () => useStickmanStore.getState();
+const byName = (name: string) => store().currentSkeleton.nodes.find(n => n.name === name)!;
+
+// Save the project and load it into a fresh store
+const reload = async () => {
+    const json = store().saveProject();
+    await newProject();
+    store().loadProject(json);
+};
+
+describe('project files', () => {
+    it('should keep joint names and IDs through save and load', async () => {
+        store().renameJoint(byName('leftHand').id, 'leftPaw');
+        store().addKeyframe();
+        const ids = store().currentSkeleton.nodes.map(n => [n.id, n.name]);
+
+        await reload();
+        expect(store().currentSkeleton.nodes.map(n => [n.id, n.name])).toEqual(ids);
+        expect(store().clips[0].keyframes[0].skeleton.nodes.some(n => n.name === 'leftPaw')).toBe(true);
+    });
+
+    it('should keep drawing the head after save and load', async () => {
+        store().setNodeStyle(byName('leftHand').id, { headShape: 'square' });
+        store().addKeyframe();
+        const json = store().saveProject();
+        await reload();
+        expect(byName('head').headShape).toBe('circle');
+        expect(byName('leftHand').headShape).toBe('square');
+
+        const { currentSkeleton } = parseStickmanProject(json);
+        expect(currentSkeleton.nodes.find(n => n.name === 'head')!.headShape).toBe('circle');
+    });
+});
+
+describe('mirroring', () => {
+    it('should mirror a reloaded project', async () => {
+        store().setSymmetryEnabled(false);
+        store().updateNodePosition(byName('leftHand').id, new Vector3(-0.5, 2.2, 0.3));
+        store().addKeyframe();
+        await reload();
+        expect(findMirrorPairs(store().currentSkeleton.root).get(byName('leftHand').id)).toBe(byName('rightHand').id);
+
+        expect(byName('leftHand').position.distanceTo(new Vector3(-0.5, 2.2, 0.3))).toBeLessThan(1e-6);
+        store().mirrorPose();
+        expect(byName('rightHand').position.distanceTo(new Vector3(0.5, 2.2, 0.3))).toBeLessThan(1e-6);
+    });
+});
+
+describe('runtime parser', () => {
+    it('should resolve a mask keyed by joint name on a loaded project', () => {
+        store().addKeyframe();
+        const { currentSkeleton } = parseStickmanProject(store().saveProject());
+        const elbow = currentSkeleton.nodes.find(n => n.name === 'rightElbow')!;
+        expect(elbow.id).toBe(byName('rightElbow').id);
+        const weights = resolveJointWeights(currentSkeleton, 1, { rightElbow: 1 });
+
+        expect(weights.get(elbow.id)).toBe(1);
+        expect(weights.get(elbow.children[0].id)).toBe(1);
+        expect(weights.get(currentSkeleton.root.id)).toBe(0);
+    });
+});
+
+describe('pose clipboard', () => {
+    it('should paste between two saved and loaded projects', async () => {
+        const target = new Vector3(-0.5, 2.2, 0.3);
+        store().setSymmetryEnabled(false);
+        store().updateNodePosition(byName('leftHand').id, target);
+        store().addKeyframe();
+        await reload();
+        const text = store().copyPose(getSubtreeChannels(byName('leftElbow')));
+
+        await newProject();
+        store().addKeyframe();
+        await reload();
+        expect(text).not.toContain(byName('leftHand').id);
+        expect(store().pastePose(text)).toBe(true);
+        expect(byName('leftHand').position.distanceTo(target)).toBeLessThan(1e-6);
+    });
+});
+
+describe('channels', () => {
+    const activeClip = () => store().clips.find(c => c.id === store().activeClipId)!;
+
+    it('should convert whole-pose keys to channel keys on load', async () => {
+        store().addKeyframe();
+        expect(activeClip().keyframes[0].channels).toBeUndefined();
+
+        await reload();
+        const [key] = activeClip().keyframes;
+        expect([...key.channels!].sort()).toEqual(getChannels(key.skeleton).sort());
+        expect(isWholeKeyframe(key)).toBe(true);
+
+        // Converted keys stay whole when joints are added
+        store().addJoint(byName('leftHand').id);
+        expect(activeClip().keyframes[0].channels).toContain(store().selectedNodeId);
+    });
+
+    it('should drop removed joints from channel lists', () => {
+        const elbow = byName('leftElbow');
+        const hand = byName('leftHand');
+        store().addKeyframe(getSubtreeChannels(elbow));
+        store().removeJoint(hand.id);
+        expect(activeClip().keyframes[0].channels).toEqual([elbow.id]);
+    });
+
+    it('should start a clip on its sampled pose', () => {
+        const target = new Vector3(-0.5, 2.2, 0.3);
+        const hand = byName('leftHand');
+        store().setCurrentTime(1);
+        store().updateNodePosition(hand.id, target);
+        store().addKeyframe();
+        // A key at 0 that does not key the hand, stored while it was somewhere else
+        store().setCurrentTime(0);
+        store().updateNodePosition(hand.id, new Vector3(-1, 1, 0));
+        store().addKeyframe([store().currentSkeleton.root.id]);
+
+        const clipId = store().activeClipId;
+        store().addClip();
+        store().setActiveClip(clipId);
+        expect(byName('leftHand').position.distanceTo(target)).toBeLessThan(1e-6);
+    });
+});
+
+describe('history', () => {
+    it('should undo and redo an edit', () => {
+        const hand = byName('leftHand');
+        const start = hand.position.clone();
+        store().updateNodePosition(hand.id, new Vector3(-0.5, 2.2, 0.3));
+        const moved = byName('leftHand').position.clone();
+
+        store().undo();
+        expect(byName('leftHand').position.distanceTo(start)).toBeLessThan(1e-6);
+        expect(store().redoStack).toHaveLength(1);
+        store().redo();
+        expect(byName('leftHand').position.distanceTo(moved)).toBeLessThan(1e-6);
+        expect(store().undoStack).toHaveLength(1);
+    });
+
+    it('should group the edits of a drag into one step', () => {
+        const hand = byName('leftHand');
+        const start = hand.position.clone();
+        store().beginHistory();
+        [0.1, 0.2, 0.3].forEach(z => store().updateNodePosition(hand.id, new Vector3(-0.5, 2.2, z)));
+        expect(store().undoStack).toHaveLength(0);
+        store().commitHistory();
+
+        expect(store().undoStack).toHaveLength(1);
+        store().undo();
+        expect(byName('leftHand').position.distanceTo(start)).toBeLessThan(1e-6);
+    });
+
+    it('should keep at most MAX_HISTORY steps', () => {
+        const id = store().activeClipId;
+        for (let i = 0; i < 105; i++) store().updateClipName(id, `Clip ${i}`);
+        expect(store().undoStack).toHaveLength(100);
+    });
+
+    it('should not record edits that change nothing', () => {
+        vi.stubGlobal('alert', vi.fn());
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        store().updateClipName('missing', 'Walk');
+        store().retimeClip(0);
+        store().loadProject('not json');
+        store().beginHistory();
+        store().commitHistory();
+        expect(store().undoStack).toHaveLength(0);
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+});
+
+describe('actors', () => {
+    // What a saved scene has to bring back for each actor
+    const describeActors = () => {
+        store().setCurrentTime(0);
+        return store().actors.map(actor => {
+            const clips = actor.id === store().activeActorId ? store().clips : actor.clips;
+            return {
+                id: actor.id,
+                name: actor.name,
+                position: actor.position.toArray(),
+                clips: clips.map(clip => ({
+                    id: clip.id,
+                    name: clip.name,
+                    duration: clip.duration,
+                    keys: clip.keyframes.map(kf => [kf.timestamp, ...kf.skeleton.root.position.toArray().map(v => +v.toFixed(6))]),
+                })),
+            };
+        });
+    };
+
+    it('should add and remove actors and keep each one through save and load', async () => {
+        store().addActor();
+        store().addActor();
+        expect(store().actors.map(a => a.name)).toEqual(['Actor 1', 'Actor 2', 'Actor 3']);
+        store().removeActor(store().actors[1].id);
+        expect(store().actors.map(a => a.name)).toEqual(['Actor 1', 'Actor 3']);
+
+        store().actors.forEach((actor, i) => {
+            store().setActiveActor(actor.id);
+            store().setActorPosition(actor.id, new Vector3(i * 3, 0, i * 2));
+            store().updateClipName(store().activeClipId, `Clip of ${actor.name}`);
+            store().setCurrentTime(0.5 + i);
+            store().updateNodePosition(store().currentSkeleton.root.id, new Vector3(i, 1.2, 0));
+            store().addKeyframe();
+        });
+        const before = describeActors();
+        const activeActorId = store().activeActorId;
+
+        await reload();
+        expect(store().activeActorId).toBe(activeActorId);
+        expect(describeActors()).toEqual(before);
+    });
+});
@@ -1,11 +1,47 @@
 import { create } from 'zustand';
-import { StickmanSkeleton } from '../core/StickmanSkeleton';
-import { StickmanClip, StickmanKeyframe } from '../core/StickmanKeyframe';
-import { StickmanNode } from '../core/StickmanNode';
+import { StickmanSkeleton, StickmanInterpolationMode } from '../core/StickmanSkeleton';
+import { StickmanClip, StickmanCurveMode } from '../core/StickmanKeyframe';
+import { StickmanNode, StickmanNodeStyle, parseNodeStyle } from '../core/StickmanNode';
+import { parseRig } from '../core/StickmanRig';
+import { poseNode } from '../core/StickmanPosing';
+import { StickmanJointConstraint } from '../core/StickmanConstraints';
+import { findMirrorPairs, mirrorPosition, mirrorPose, mirrorJointRotation } from '../core/StickmanMirror';
+import { StickmanEasing, parseEasing } from '../core/StickmanEasing';
+import { StickmanActor } from '../core/StickmanActor';
+import {
+  moveKeyframes, scaleKeyframes, deleteKeyframes, duplicateKeyframes, parseClipPlayback
+} from '../core/StickmanTimeline';
+import { sampleClip } from '../core/StickmanClipSampler';
+import { addMarker, updateMarker, deleteMarker, parseMarkers } from '../core/StickmanMarkers';
+import { extractRootMotion, bakeRootMotion, parseRootMotion } from '../core/StickmanRootMotion';
+import { generateGait, StickmanGaitParams } from '../core/StickmanGait';
+import { StickmanPose, createPose, applyPose, serializePoseLibrary, parsePoseLibrary } from '../core/StickmanPoseLibrary';
+import { copyPoseToText, parsePoseClipboard, pastePose } from '../core/StickmanClipboard';
+import {
+  reverseClip, retimeClip, retimeClipToDuration, trimClip, pingPongClip, appendClip, splitClip, duplicateClip
+} from '../core/StickmanClipOps';
+import {
+  ChannelValues, HEAD_RADIUS_CHANNEL, STROKE_WIDTH_CHANNEL, captureChannels, changedChannels, writeKeyframe, parseChannels,
+  getChannels, isWholeKeyframe
+} from '../core/StickmanChannels';
+import { StickmanOnionSkinSettings, DEFAULT_ONION_SKIN } from '../core/StickmanOnionSkin';
 import { v4 as uuidv4 } from 'uuid';
 import { Vector3, Quaternion } from 'three';
 
+// Undo snapshot of the document: every actor (active one synced), playhead and SA3 extras
+interface StickmanHistoryEntry {
+  actors: StickmanActor[];
+  activeActorId: string;
+  currentTime: number;
+  skin: any;
+  polygons: any;
+}
+
 interface StickmanState {
+  // Every character in the scene. The active actor is edited through currentSkeleton, clips and
+  // activeClipId; its entry here is only brought up to date when another actor is activated or on save.
+  actors: StickmanActor[];
+  activeActorId: string;
   currentSkeleton: StickmanSkeleton;
   clips: StickmanClip[];
   activeClipId: string;
@@ -13,207 +49,520 @@ interface StickmanState {
   currentTime: number;
   editMode: boolean;
   selectedNodeId: string | null;
-  modeType: 'pose' | 'animate';
+  selectedKeyframeIds: string[]; // Keyframes of the active clip selected on the timeline
+  selectedMarkerId: string | null; // Marker of the active clip being edited
+  symmetryEnabled: boolean; // Drag/rotate edits are mirrored onto the opposite-side joint
+  autoKey: boolean; // Pose edits in animate mode are keyed at the playhead right away
+  modeType: 'pose' | 'animate' | 'rig';
 
   // New SA3 Data
   skin: any;
   polygons: any;
 
+  // History
+  undoStack: StickmanHistoryEntry[];
+  redoStack: StickmanHistoryEntry[];
+
   // View State
   cameraView: 'front' | 'side' | 'top' | 'free';
   axisMode: 'none' | 'x' | 'y' | 'z';
+  transformMode: 'translate' | 'rotate';
   viewZoom: number;
   viewHeight: number;
+  onionSkin: StickmanOnionSkinSettings;
+
+  // Pose library. Not part of the project (see exportPoses/importPoses), so not undone either.
+  poses: StickmanPose[];
+
+  // History Actions. begin/commit group everything in between (e.g. a whole drag) into one undo step.
+  undo: () => void;
+  redo: () => void;
+  beginHistory: () => void;
+  commitHistory: () => void;
 
   // Actions
   togglePlay: () => void;
   setEditMode: (enabled: boolean) => void;
-  selectNode: (id: string | null) => void;
+  selectNode: (id: string | null, actorId?: string) => void;
   updateNodePosition: (id: string, position: Vector3) => void;
-  addKeyframe: () => void;
+  rotateNode: (id: string, worldRotation: Quaternion) => void;
+  setSymmetryEnabled: (enabled: boolean) => void;
+  setAutoKey: (enabled: boolean) => void;
+  mirrorPose: (keyframeId?: string) => void;
+  addKeyframe: (channels?: string[]) => void;
+  setKeyframeEasing: (keyframeId: string, easing: StickmanEasing) => void;
+
+  // Keyframe Editing (active clip)
+  selectKeyframes: (ids: string[], additive?: boolean) => void;
+  moveKeyframes: (ids: string[], delta: number) => void;
+  scaleKeyframes: (ids: string[], factor: number) => void;
+  deleteKeyframes: (ids: string[]) => void;
+  duplicateKeyframes: (ids: string[]) => void;
+  replaceKeyframePose: (keyframeId: string) => void;
+  updateKeyframeNodePosition: (keyframeId: string, nodeId: string, position: Vector3) => void;
+
+  // Clip Operations - each adds the resulting clips after the active clip and opens the first
+  reverseClip: () => void;
+  retimeClip: (factor: number) => void;
+  retimeClipToDuration: (duration: number) => void;
+  trimClip: (start: number, end: number) => void;
+  pingPongClip: () => void;
+  appendClip: (otherClipId: string, gap: number) => void;
+  splitClip: () => void; // At the playhead
+
+  // Root Motion (active clip, in place)
+  extractRootMotion: (withYaw: boolean) => void;
+  bakeRootMotion: () => void;
+
+  // Procedural Cycles - builds a looping walk/run from the current pose and adds it after the active clip
+  generateGait: (params: StickmanGaitParams, name: string) => void;
+
+  // Pose Library
+  savePose: (name: string, jointIds?: string[]) => void; // Current pose, or only some joints
+  applyPose: (id: string, blend: number, asKeyframe?: boolean) => void; // asKeyframe keys the posed joints at the playhead
+  renamePose: (id: string, name: string) => void;
+  deletePose: (id: string) => void;
+  importPoses: (json: string) => void; // Poses with the same ID are replaced
+  exportPoses: () => string;
+
+  // Pose Clipboard (text for the system clipboard, see StickmanClipboard)
+  copyPose: (jointIds?: string[]) => string; // Current pose, or only some joints
+  pastePose: (text: string, mirror?: boolean) => boolean; // False when the text holds no pose. Keyed at the playhead in animate mode.
+
+  // Markers (active clip)
+  addMarker: (name?: string) => void;
+  updateMarker: (id: string, changes: { name?: string, time?: number }) => void;
+  deleteMarker: (id: string) => void;
+  selectMarker: (id: string | null) => void;
+
   loadProject: (json: string) => void;
   saveProject: (format?: 'sap' | 'sa3') => string;
   setCurrentTime: (time: number) => void;
-  setModeType: (mode: 'pose' | 'animate') => void;
+  setModeType: (mode: 'pose' | 'animate' | 'rig') => void;
+
+  // Rig (Topology) Actions - applied to the current skeleton and every keyframe of every clip
+  addJoint: (parentId: string) => void;
+  removeJoint: (id: string) => void;
+  reparentJoint: (id: string, newParentId: string) => void;
+  renameJoint: (id: string, name: string) => void;
+  setJointConstraint: (id: string, constraint: StickmanJointConstraint | null) => void;
+  setNodeStyle: (id: string, style: Partial<StickmanNodeStyle>) => void;
+
+  // Scene Actions
+  addActor: () => void;
+  removeActor: (id: string) => void;
+  setActiveActor: (id: string) => void;
+  renameActor: (id: string, name: string) => void;
+  setActorPosition: (id: string, position: Vector3) => void;
 
   // UI Actions
   setCameraView: (view: 'front' | 'side' | 'top' | 'free') => void;
   setAxisMode: (mode: 'none' | 'x' | 'y' | 'z') => void;
+  setTransformMode: (mode: 'translate' | 'rotate') => void;
   setViewZoom: (zoom: number) => void;
   setViewHeight: (height: number) => void;
+  setOnionSkin: (settings: Partial<StickmanOnionSkinSettings>) => void;
   setHeadRadius: (radius: number) => void;
   setStrokeWidth: (width: number) => void;
 
   // Playlist Actions
   setActiveClip: (id: string) => void;
   addClip: () => void;
+  deleteClip: (id: string) => void; // The last clip is replaced by an empty one
+  duplicateClip: (id: string) => void; // The copy goes right after the clip and is opened
+  moveClip: (id: string, index: number) => void;
   updateClipName: (id: string, name: string) => void;
+  setClipDuration: (id: string, duration: number) => void; // Keys past the end stay but are not played
+  setClipLoop: (id: string, loop: boolean) => void;
+  setClipFps: (id: string, fps: number) => void;
+  setClipInterpolation: (id: string, mode: StickmanInterpolationMode) => void;
+  setClipCurve: (id: string, curve: StickmanCurveMode) => void;
 }
 
-// --- IK / FK MATH HELPERS (Ported from Dart) ---
+// Default bone length of joints added in rig mode
+const NEW_JOINT_LENGTH = 0.3;
+// Distance along X between newly added actors
+const ACTOR_SPACING = 1.5;
+// Undo steps kept in memory. Older ones are dropped.
+const MAX_HISTORY = 100;
+// Gap left between a keyframe selection and its duplicate when the playhead is not after the selection
+const DUPLICATE_GAP = 0.5;
 
-const findNode = (root: StickmanNode, id: string): StickmanNode | null => {
-    if (root.id === id) return root;
-    for (const child of root.children) {
-        const found = findNode(child, id);
-        if (found) return found;
-    }
-    return null;
-};
+export const useStickmanStore = create<StickmanState>((set, get) => {
+  const createDefaultClip = (): StickmanClip => ({
+    id: uuidv4(),
+    name: 'New Animation',
+    keyframes: [],
+    duration: 5,
+  });
 
-// Hardcoded hierarchy lookup (matches StickmanSkeleton structure)
-const getParentId = (nodeId: string): string => {
-    if (nodeId === 'leftElbow' || nodeId === 'rightElbow') return 'neck';
-    if (nodeId === 'leftKnee' || nodeId === 'rightKnee') return 'hip';
-    if (nodeId === 'leftHand') return 'leftElbow';
-    if (nodeId === 'rightHand') return 'rightElbow';
-    if (nodeId === 'leftFoot') return 'leftKnee';
-    if (nodeId === 'rightFoot') return 'rightKnee';
-    if (nodeId === 'neck') return 'hip';
-    if (nodeId === 'head') return 'neck';
-    return '';
-};
+  const createActor = (name: string, position: Vector3): StickmanActor => {
+    const clip = createDefaultClip();
+    return {
+      id: uuidv4(),
+      name,
+      position,
+      skeleton: new StickmanSkeleton(),
+      clips: [clip],
+      activeClipId: clip.id,
+    };
+  };
 
-// Recursive move for root nodes (moves the whole hierarchy)
-const recursiveMove = (node: StickmanNode, delta: Vector3) => {
-    node.position.add(delta);
-    node.children.forEach(child => recursiveMove(child, delta));
-};
+  const defaultActor = createActor('Actor 1', new Vector3());
 
-// FK: Moves a joint (like Elbow) but keeps it attached to parent (Neck) by radius
-const applyConstrainedFKMove = (rootSkel: StickmanNode, nodeId: string, parentId: string, requestedDelta: Vector3) => {
-    const node = findNode(rootSkel, nodeId);
-    const parent = findNode(rootSkel, parentId);
-    if (!node || !parent) return;
+  // Actors with the working state of the active actor written back
+  const syncActors = (): StickmanActor[] => {
+    const { actors, activeActorId, currentSkeleton, clips, activeClipId } = get();
+    return actors.map(actor =>
+        actor.id === activeActorId ? { ...actor, skeleton: currentSkeleton, clips, activeClipId } : actor
+    );
+  };
 
-    const oldPos = node.position.clone();
-    const targetPos = oldPos.clone().add(requestedDelta);
+  // --- HISTORY ---
+  // Snapshots share clips and keyframes with the live state (those are replaced, never mutated),
+  // so only the skeletons edited in place are copied.
+  const takeSnapshot = (): StickmanHistoryEntry => {
+    const { activeActorId, currentTime, skin, polygons } = get();
+    return {
+      actors: syncActors().map(actor => ({ ...actor, skeleton: actor.skeleton.clone() })),
+      activeActorId,
+      currentTime,
+      skin,
+      polygons,
+    };
+  };
 
-    // Constrain to sphere radius
-    const currentLength = oldPos.distanceTo(parent.position);
-    const dir = new Vector3().subVectors(targetPos, parent.position);
+  const restoreSnapshot = (entry: StickmanHistoryEntry) => {
+    const actors = entry.actors.map(actor => ({ ...actor, skeleton: actor.skeleton.clone() }));
+    const active = actors.find(a => a.id === entry.activeActorId) || actors[0];
+    const { selectedNodeId } = get();
+    set({
+      actors,
+      activeActorId: active.id,
+      currentSkeleton: active.skeleton,
+      clips: active.clips,
+      activeClipId: active.activeClipId,
+      currentTime: entry.currentTime,
+      skin: entry.skin,
+      polygons: entry.polygons,
+      selectedNodeId: selectedNodeId && active.skeleton.root.findNode(selectedNodeId) ? selectedNodeId : null,
+      selectedKeyframeIds: [],
+      selectedMarkerId: null,
+      isPlaying: false,
+    });
+  };
 
-    if (dir.length() > 0.001) {
-        dir.normalize();
-        const constrainedPos = parent.position.clone().add(dir.multiplyScalar(currentLength));
-        const finalDelta = new Vector3().subVectors(constrainedPos, oldPos);
+  // Whether the document differs from a snapshot. Clips are replaced rather than mutated, so they
+  // compare by reference; skeletons are edited in place and compare by value.
+  const changedSince = (entry: StickmanHistoryEntry) => {
+    const { activeActorId, skin, polygons } = get();
+    const actors = syncActors();
+    if (entry.activeActorId !== activeActorId || entry.skin !== skin || entry.polygons !== polygons) return true;
+    if (entry.actors.length !== actors.length) return true;
+    return entry.actors.some((before, i) => {
+      const after = actors[i];
+      return before.id !== after.id
+        || before.name !== after.name
+        || before.activeClipId !== after.activeClipId
+        || !before.position.equals(after.position)
+        || before.clips.length !== after.clips.length
+        || before.clips.some((clip, j) => clip !== after.clips[j])
+        || before.skeleton.nodes.length !== after.skeleton.nodes.length
+        || changedChannels(captureChannels(before.skeleton), after.skeleton).length > 0;
+    });
+  };
 
-        // Move this node and all children (hands/feet move with elbows/knees)
-        recursiveMove(node, finalDelta);
-    }
-};
+  let historyDepth = 0;
+  let historyDirty = false;
+  let pendingEntry: StickmanHistoryEntry | null = null;
 
-// IK: Solves 2-Bone IK (Hip -> Knee -> Foot)
-const solveTwoBoneIK = (rootPos: Vector3, jointNode: StickmanNode, effectorNode: StickmanNode, targetPos: Vector3, len1: number, len2: number) => {
-    // 1. Calculate direction from Root to Target
-    const direction = new Vector3().subVectors(targetPos, rootPos);
-    let distance = direction.length();
-
-    // 2. Clamp target if out of reach
-    if (distance > (len1 + len2)) {
-        direction.normalize();
-        targetPos.copy(rootPos).add(direction.multiplyScalar(len1 + len2));
-        distance = len1 + len2;
+  const beginHistory = () => {
+    if (historyDepth === 0) {
+      pendingEntry = takeSnapshot();
+      historyDirty = false;
     }
+    historyDepth++;
+  };
 
-    // 3. Law of Cosines to find the angle (alpha) for the joint
-    const cosAlpha = (len1 * len1 + distance * distance - len2 * len2) / (2 * len1 * distance);
-    const clampedCos = Math.max(-1, Math.min(1, cosAlpha));
-    const alpha = Math.acos(clampedCos);
-
-    // 4. Determine Bending Plane (Pole Vector)
-    const armAxis = direction.clone().normalize();
-    let pole: Vector3 | null = null;
-
-    // Pole vectors define which way joints bend
-    if (jointNode.id.toLowerCase().includes('knee')) pole = new Vector3(0, 0, -1); // Knees bend backward
-    else if (jointNode.id.toLowerCase().includes('elbow')) pole = new Vector3(0, 0, 1); // Elbows bend forward/out
-
-    let bendNormal = new Vector3();
-    if (pole) {
-        bendNormal.crossVectors(armAxis, pole);
-        if (bendNormal.length() < 0.001) bendNormal.crossVectors(armAxis, new Vector3(1, 0, 0));
-    } else {
-        // Fallback: use current joint position to determine plane
-        const currentLimb = new Vector3().subVectors(jointNode.position, rootPos);
-        bendNormal.crossVectors(armAxis, currentLimb);
+  const commitHistory = () => {
+    if (historyDepth === 0) return;
+    historyDepth--;
+    if (historyDepth > 0) return;
+    const entry = pendingEntry;
+    pendingEntry = null;
+    // Edits that turned out to change nothing (unknown IDs, invalid values) leave no step
+    if (entry && historyDirty && changedSince(entry)) {
+      set(state => ({ undoStack: [...state.undoStack, entry].slice(-MAX_HISTORY), redoStack: [] }));
     }
+  };
 
-    if (bendNormal.length() < 0.001) bendNormal.set(1, 0, 0);
-    bendNormal.normalize();
-
-    // 5. Rotate the joint position
-    const q = new Quaternion().setFromAxisAngle(bendNormal, alpha);
-    const rotatedLimb = armAxis.clone().applyQuaternion(q).multiplyScalar(len1);
-
-    jointNode.position.copy(rootPos).add(rotatedLimb);
-    effectorNode.position.copy(targetPos);
-};
-
-const applyIKMove = (rootSkel: StickmanNode, effectorId: string, delta: Vector3) => {
-    const effector = findNode(rootSkel, effectorId);
-    const jointId = getParentId(effectorId);
-    const rootId = getParentId(jointId);
+  // Run a document edit as one undo step, or as part of the step that is already open
+  const recorded = (edit: () => void) => {
+    beginHistory();
+    historyDirty = true;
+    try {
+      edit();
+    } finally {
+      commitHistory();
+    }
+  };
 
-    if (!effector || !jointId || !rootId) return;
+  // Drag a joint of a skeleton with the rig's posing logic, mirrored onto the opposite-side joint
+  // when symmetry is on
+  const dragNode = (skeleton: StickmanSkeleton, id: string, targetWorldPosition: Vector3) => {
+    poseNode(skeleton, id, targetWorldPosition);
+    const counterpartId = get().symmetryEnabled ? findMirrorPairs(skeleton.root).get(id) : undefined;
+    if (counterpartId) {
+        poseNode(skeleton, counterpartId, mirrorPosition(skeleton, targetWorldPosition));
+    }
+  };
 
-    const joint = findNode(rootSkel, jointId);
-    const root = findNode(rootSkel, rootId);
+  // Replace the active clip with the result of a keyframe edit
+  const editActiveClip = (edit: (clip: StickmanClip) => StickmanClip) => {
+    const { clips, activeClipId } = get();
+    set({ clips: clips.map(c => c.id === activeClipId ? edit(c) : c) });
+  };
 
-    if (!joint || !root) return;
+  const insertDerivedClips = (derived: StickmanClip[]) => {
+    const { clips, activeClipId } = get();
+    const index = clips.findIndex(c => c.id === activeClipId);
+    set({ clips: [...clips.slice(0, index + 1), ...derived, ...clips.slice(index + 1)] });
+    get().setActiveClip(derived[0].id);
+  };
 
-    const len1 = joint.position.distanceTo(root.position);
-    const len2 = effector.position.distanceTo(joint.position);
-    const targetPos = effector.position.clone().add(delta);
+  const getActiveClip = () => get().clips.find(c => c.id === get().activeClipId);
 
-    solveTwoBoneIK(root.position, joint, effector, targetPos, len1, len2);
-};
+  // Sizes are animated channels as well, so they follow the sampled pose
+  const copySampledPose = (skeleton: StickmanSkeleton, pose: StickmanSkeleton) => {
+    skeleton.copyPose(pose);
+    skeleton.headRadius = pose.headRadius;
+    skeleton.strokeWidth = pose.strokeWidth;
+  };
 
+  // Keying rules for pose edits: with auto-key on (animate mode, paused) the channels the edit
+  // changed (compared to `before`) go straight into the key at the playhead. Otherwise the edit
+  // stays unkeyed until addKeyframe, and the next time change replaces it with the evaluated pose.
+  const isAutoKeying = () => {
+    const { autoKey, modeType, isPlaying } = get();
+    return autoKey && modeType === 'animate' && !isPlaying;
+  };
 
-export const useStickmanStore = create<StickmanState>((set, get) => {
-  const createDefaultClip = (): StickmanClip => ({
-    id: uuidv4(),
-    name: 'New Animation',
-    keyframes: [],
-    duration: 5,
-  });
+  const autoKeyPose = (before: ChannelValues) => {
+    if (!isAutoKeying()) return;
+    const channels = changedChannels(before, get().currentSkeleton);
+    if (channels.length > 0) get().addKeyframe(channels);
+  };
 
-  const defaultClip = createDefaultClip();
+  // Apply a topology or rig edit to the current skeleton and to copies of all keyframe poses so
+  // every clip keeps the same joint tree. Keyframes are replaced, never mutated in place.
+  // Channel lists follow the tree: whole keys take in new joints, removed joints leave every list.
+  const editTopology = (edit: (skeleton: StickmanSkeleton) => boolean) => {
+    const { currentSkeleton, clips } = get();
+    if (!edit(currentSkeleton)) return false;
+
+    const updatedClips = clips.map(clip => ({
+        ...clip,
+        keyframes: clip.keyframes.map(kf => {
+            const whole = isWholeKeyframe(kf);
+            const skeleton = kf.skeleton.clone();
+            edit(skeleton);
+            if (!kf.channels) return { ...kf, skeleton };
+            const channels = getChannels(skeleton);
+            return { ...kf, skeleton, channels: whole ? channels : kf.channels.filter(c => channels.includes(c)) };
+        })
+    }));
+
+    set({ currentSkeleton: currentSkeleton, clips: updatedClips });
+    return true;
+  };
 
   return {
-    currentSkeleton: new StickmanSkeleton(),
-    clips: [defaultClip],
-    activeClipId: defaultClip.id,
+    actors: [defaultActor],
+    activeActorId: defaultActor.id,
+    currentSkeleton: defaultActor.skeleton,
+    clips: defaultActor.clips,
+    activeClipId: defaultActor.activeClipId,
     isPlaying: false,
     currentTime: 0,
     editMode: true,
     selectedNodeId: null,
+    selectedKeyframeIds: [],
+    selectedMarkerId: null,
+    symmetryEnabled: false,
+    autoKey: false,
     skin: null,
     polygons: null,
     modeType: 'pose',
 
+    undoStack: [],
+    redoStack: [],
+
     // View Defaults
     cameraView: 'free',
     axisMode: 'none',
+    transformMode: 'translate',
     viewZoom: 5.0,
     viewHeight: 2.0,
+    onionSkin: { ...DEFAULT_ONION_SKIN },
+    poses: [],
+
+    undo: () => {
+        const { undoStack, redoStack } = get();
+        // Nothing to undo, or a gesture is still in progress
+        if (undoStack.length === 0 || historyDepth > 0) return;
+        const current = takeSnapshot();
+        restoreSnapshot(undoStack[undoStack.length - 1]);
+        set({ undoStack: undoStack.slice(0, -1), redoStack: [...redoStack, current] });
+    },
+
+    redo: () => {
+        const { undoStack, redoStack } = get();
+        if (redoStack.length === 0 || historyDepth > 0) return;
+        const current = takeSnapshot();
+        restoreSnapshot(redoStack[redoStack.length - 1]);
+        set({ undoStack: [...undoStack, current].slice(-MAX_HISTORY), redoStack: redoStack.slice(0, -1) });
+    },
+
+    beginHistory: beginHistory,
+    commitHistory: commitHistory,
 
     togglePlay: () => set((state) => ({ isPlaying: !state.isPlaying })),
     setEditMode: (enabled) => set({ editMode: enabled }),
-    selectNode: (id) => set({ selectedNodeId: id }),
+    // Picking a joint of another actor makes that actor active first
+    selectNode: (id, actorId) => {
+        if (actorId) get().setActiveActor(actorId);
+        set({ selectedNodeId: id });
+    },
     setModeType: (mode) => set({ modeType: mode }),
 
+    addJoint: (parentId) => recorded(() => {
+        const { currentSkeleton } = get();
+        const names = new Set(currentSkeleton.nodes.map(n => n.name));
+        let index = 1;
+        while (names.has(`joint${index}`)) index++;
+
+        // New joints continue the parent's bone direction; this local offset is their rest pose in every keyframe
+        const template = new StickmanNode(`joint${index}`, new Vector3(), undefined, new Quaternion(), NEW_JOINT_LENGTH);
+        if (editTopology(skeleton => skeleton.addJoint(parentId, template.clone()))) {
+            set({ selectedNodeId: template.id });
+        }
+    }),
+
+    removeJoint: (id) => recorded(() => {
+        const { currentSkeleton, selectedNodeId } = get();
+        const removed = currentSkeleton.root.findNode(id);
+        const removedSelection = !!removed && !!selectedNodeId && !!removed.findNode(selectedNodeId);
+        if (editTopology(skeleton => skeleton.removeJoint(id)) && removedSelection) {
+            set({ selectedNodeId: null });
+        }
+    }),
+
+    reparentJoint: (id, newParentId) => recorded(() => {
+        editTopology(skeleton => skeleton.reparentJoint(id, newParentId));
+    }),
+
+    renameJoint: (id, name) => recorded(() => {
+        editTopology(skeleton => skeleton.renameJoint(id, name));
+    }),
+
+    setJointConstraint: (id, constraint) => recorded(() => {
+        editTopology(skeleton => {
+            if (!skeleton.root.findNode(id)) return false;
+            const constraints = { ...skeleton.rig.constraints };
+            if (constraint) constraints[id] = { ...constraint };
+            else delete constraints[id];
+            skeleton.rig = { ...skeleton.rig, constraints };
+            return true;
+        });
+        // Snap the current pose into the new limits
+        const { currentSkeleton } = get();
+        if (currentSkeleton.applyConstraints()) set({ currentSkeleton: currentSkeleton });
+    }),
+
+    // Styles are part of the character, so every keyframe gets the same change
+    setNodeStyle: (id, style) => recorded(() => {
+        editTopology(skeleton => {
+            const node = skeleton.root.findNode(id);
+            if (!node) return false;
+            const merged: StickmanNodeStyle = { ...node.style, ...style };
+            // Drop cleared properties so saved files stay small
+            (Object.keys(merged) as (keyof StickmanNodeStyle)[]).forEach(key => {
+                if (merged[key] === undefined || merged[key] === false) delete merged[key];
+            });
+            node.style = Object.keys(merged).length > 0 ? merged : undefined;
+            return true;
+        });
+    }),
+
+    addActor: () => recorded(() => {
+        const { actors } = get();
+        const names = new Set(actors.map(a => a.name));
+        let index = actors.length + 1;
+        while (names.has(`Actor ${index}`)) index++;
+
+        const actor = createActor(`Actor ${index}`, new Vector3(actors.length * ACTOR_SPACING, 0, 0));
+        set({ actors: [...syncActors(), actor] });
+        get().setActiveActor(actor.id);
+    }),
+
+    removeActor: (id) => recorded(() => {
+        const { actors, activeActorId } = get();
+        // A scene always keeps at least one actor
+        if (actors.length <= 1 || !actors.some(a => a.id === id)) return;
+        if (id === activeActorId) {
+            get().setActiveActor(actors.find(a => a.id !== id)!.id);
+        }
+        set(state => ({ actors: state.actors.filter(a => a.id !== id) }));
+    }),
+
+    setActiveActor: (id) => {
+        const { activeActorId } = get();
+        const actor = get().actors.find(a => a.id === id);
+        if (!actor || id === activeActorId) return;
+        set({
+            actors: syncActors(),
+            activeActorId: id,
+            currentSkeleton: actor.skeleton,
+            clips: actor.clips,
+            activeClipId: actor.activeClipId,
+            selectedNodeId: null,
+            selectedKeyframeIds: [],
+            selectedMarkerId: null
+        });
+    },
+
+    renameActor: (id, name) => recorded(() => {
+        set(state => ({
+            actors: state.actors.map(a => a.id === id ? { ...a, name } : a)
+        }));
+    }),
+
+    setActorPosition: (id, position) => recorded(() => {
+        set(state => ({
+            actors: state.actors.map(a => a.id === id ? { ...a, position: position.clone() } : a)
+        }));
+    }),
+
     setCameraView: (view) => set({ cameraView: view }),
     setAxisMode: (mode) => set({ axisMode: mode }),
+    setTransformMode: (mode) => set({ transformMode: mode }),
     setViewZoom: (zoom) => set({ viewZoom: zoom }),
     setViewHeight: (height) => set({ viewHeight: height }),
+    setOnionSkin: (settings) => set(state => ({ onionSkin: { ...state.onionSkin, ...settings } })),
 
-    setHeadRadius: (radius) => {
+    setHeadRadius: (radius) => recorded(() => {
         const { currentSkeleton, clips } = get();
 
         // Update current skeleton
         currentSkeleton.headRadius = radius;
 
+        // While auto-keying the size is animated: only the key at the playhead gets it
+        if (isAutoKeying()) {
+            set({ currentSkeleton: currentSkeleton });
+            get().addKeyframe([HEAD_RADIUS_CHANNEL]);
+            return;
+        }
+
         // Update all keyframes in all clips to match the new global head size
         const updatedClips = clips.map(clip => ({
             ...clip,
@@ -228,14 +577,20 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
         }));
 
         set({ currentSkeleton: currentSkeleton, clips: updatedClips });
-    },
+    }),
 
-    setStrokeWidth: (width) => {
+    setStrokeWidth: (width) => recorded(() => {
         const { currentSkeleton, clips } = get();
 
         // Update current skeleton
         currentSkeleton.strokeWidth = width;
 
+        if (isAutoKeying()) {
+            set({ currentSkeleton: currentSkeleton });
+            get().addKeyframe([STROKE_WIDTH_CHANNEL]);
+            return;
+        }
+
         // Update all keyframes in all clips to match the new global stroke width
         const updatedClips = clips.map(clip => ({
             ...clip,
@@ -250,18 +605,19 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
         }));
 
         set({ currentSkeleton: currentSkeleton, clips: updatedClips });
-    },
+    }),
 
     setActiveClip: (id) => {
         const { clips } = get();
         const clip = clips.find(c => c.id === id);
         if (clip) {
-            const startSkeleton = clip.keyframes.length > 0
-                ? clip.keyframes[0].skeleton.clone()
-                : new StickmanSkeleton();
+            // Empty clips keep the current skeleton so custom joint trees survive the switch
+            const startSkeleton = sampleClip(clip, 0) || get().currentSkeleton.clone();
 
             set({
                 activeClipId: id,
+                selectedKeyframeIds: [],
+                selectedMarkerId: null,
                 currentSkeleton: startSkeleton,
                 currentTime: 0,
                 isPlaying: false
@@ -269,85 +625,346 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
         }
     },
 
-    addClip: () => {
+    addClip: () => recorded(() => {
         const newClip = createDefaultClip();
         set(state => ({
             clips: [...state.clips, newClip],
             activeClipId: newClip.id,
+            selectedKeyframeIds: [],
+            selectedMarkerId: null,
             currentTime: 0,
             isPlaying: false
         }));
-    },
+    }),
+
+    deleteClip: (id) => recorded(() => {
+        const { clips, activeClipId } = get();
+        const index = clips.findIndex(c => c.id === id);
+        if (index < 0) return;
+        const remaining = clips.filter(c => c.id !== id);
+        if (remaining.length === 0) remaining.push(createDefaultClip());
+        set({ clips: remaining });
+        if (id === activeClipId) get().setActiveClip(remaining[Math.min(index, remaining.length - 1)].id);
+    }),
+
+    duplicateClip: (id) => recorded(() => {
+        const { clips } = get();
+        const index = clips.findIndex(c => c.id === id);
+        if (index < 0) return;
+        const copy = duplicateClip(clips[index]);
+        set({ clips: [...clips.slice(0, index + 1), copy, ...clips.slice(index + 1)] });
+        get().setActiveClip(copy.id);
+    }),
+
+    moveClip: (id, index) => recorded(() => {
+        const { clips } = get();
+        const clip = clips.find(c => c.id === id);
+        if (!clip) return;
+        const rest = clips.filter(c => c.id !== id);
+        const target = Math.max(0, Math.min(rest.length, index));
+        set({ clips: [...rest.slice(0, target), clip, ...rest.slice(target)] });
+    }),
 
-    updateClipName: (id, name) => {
+    updateClipName: (id, name) => recorded(() => {
         set(state => ({
             clips: state.clips.map(c => c.id === id ? { ...c, name } : c)
         }));
-    },
+    }),
+
+    setClipDuration: (id, duration) => recorded(() => {
+        if (!(duration > 0)) return;
+        set(state => ({
+            clips: state.clips.map(c => c.id === id ? { ...c, duration } : c)
+        }));
+        if (id === get().activeClipId && get().currentTime > duration) get().setCurrentTime(duration);
+    }),
+
+    setClipLoop: (id, loop) => recorded(() => {
+        set(state => ({
+            clips: state.clips.map(c => c.id === id ? { ...c, loop } : c)
+        }));
+    }),
+
+    setClipFps: (id, fps) => recorded(() => {
+        if (!(fps > 0)) return;
+        set(state => ({
+            clips: state.clips.map(c => c.id === id ? { ...c, fps } : c)
+        }));
+    }),
+
+    setClipInterpolation: (id, mode) => recorded(() => {
+        set(state => ({
+            clips: state.clips.map(c => c.id === id ? { ...c, interpolation: mode } : c)
+        }));
+    }),
+
+    setClipCurve: (id, curve) => recorded(() => {
+        set(state => ({
+            clips: state.clips.map(c => c.id === id ? { ...c, curve } : c)
+        }));
+    }),
 
     // --- SMART UPDATE LOGIC ---
-    updateNodePosition: (id, targetWorldPosition) => {
+    // Dispatches on the joint's role in the skeleton's rig (root move, FK swing or IK chain)
+    updateNodePosition: (id, targetWorldPosition) => recorded(() => {
       const { currentSkeleton } = get();
-      const node = findNode(currentSkeleton.root, id);
-
-      if (node) {
-        // Calculate the requested Move Delta
-        // targetWorldPosition is absolute, so we need delta for our logic
-        const delta = new Vector3().subVectors(targetWorldPosition, node.position);
-
-        // Classify the Move Type
-        const isEndEffector = ['leftHand', 'rightHand', 'leftFoot', 'rightFoot'].includes(id);
-        const isMidJoint = ['leftElbow', 'rightElbow', 'leftKnee', 'rightKnee'].includes(id);
-        const isRoot = id === 'hip';
-        const isNeck = id === 'neck';
-        const parentId = getParentId(id);
-
-        if (isRoot) {
-            // Move entire skeleton
-            recursiveMove(node, delta);
-        } else if (isNeck) {
-            // Neck is attached to Hip
-            applyConstrainedFKMove(currentSkeleton.root, id, 'hip', delta);
-        } else if (isMidJoint && parentId) {
-            // Elbow/Knee attached to Neck/Hip
-            applyConstrainedFKMove(currentSkeleton.root, id, parentId, delta);
-        } else if (isEndEffector) {
-            // Hand/Foot uses IK
-            applyIKMove(currentSkeleton.root, id, delta);
-        } else {
-            // Fallback for Heads or unknown nodes
-            recursiveMove(node, delta);
-        }
+      if (currentSkeleton.root.findNode(id)) {
+        const before = captureChannels(currentSkeleton);
+        dragNode(currentSkeleton, id, targetWorldPosition);
 
         // Force React Re-render
         set({ currentSkeleton: currentSkeleton });
+        autoKeyPose(before);
       }
-    },
+    }),
 
-    addKeyframe: () => {
-      const { currentSkeleton, clips, activeClipId, currentTime } = get();
-
-      const activeClip = clips.find(c => c.id === activeClipId);
-      if (!activeClip) return;
+    rotateNode: (id, worldRotation) => recorded(() => {
+      const { currentSkeleton } = get();
+      const before = captureChannels(currentSkeleton);
+      currentSkeleton.setWorldRotation(id, worldRotation);
+      if (get().symmetryEnabled) mirrorJointRotation(currentSkeleton, id);
+      currentSkeleton.applyConstraints();
+      set({ currentSkeleton: currentSkeleton });
+      autoKeyPose(before);
+    }),
+
+    setSymmetryEnabled: (enabled) => set({ symmetryEnabled: enabled }),
+    setAutoKey: (enabled) => set({ autoKey: enabled }),
+
+    // Mirror the current pose, or the pose stored in a keyframe of the active clip
+    mirrorPose: (keyframeId) => recorded(() => {
+      const { currentSkeleton, clips, activeClipId } = get();
+      if (!keyframeId) {
+          const before = captureChannels(currentSkeleton);
+          mirrorPose(currentSkeleton);
+          set({ currentSkeleton: currentSkeleton });
+          autoKeyPose(before);
+          return;
+      }
 
-      const newKeyframe: StickmanKeyframe = {
-        id: uuidv4(),
-        skeleton: currentSkeleton.clone(),
-        timestamp: currentTime,
-      };
+      const updatedClips = clips.map(c =>
+          c.id === activeClipId
+              ? {
+                  ...c,
+                  keyframes: c.keyframes.map(kf => {
+                      if (kf.id !== keyframeId) return kf;
+                      const skeleton = kf.skeleton.clone();
+                      mirrorPose(skeleton);
+                      // Keyed joints swap sides along with their values
+                      const pairs = findMirrorPairs(skeleton.root);
+                      const channels = kf.channels?.map(c => pairs.get(c) || c);
+                      return { ...kf, skeleton, channels };
+                  })
+              }
+              : c
+      );
+      set({ clips: updatedClips });
+    }),
 
-      const newKeyframes = [...activeClip.keyframes, newKeyframe].sort((a, b) => a.timestamp - b.timestamp);
-      const maxTimestamp = newKeyframes.length > 0 ? newKeyframes[newKeyframes.length - 1].timestamp : 0;
-      const newDuration = Math.max(activeClip.duration, maxTimestamp);
+    // Keys the current pose at the playhead, or only some of its channels. A key already on that
+    // time gets the new values (keeping its ID and easing) instead of a second key being stacked on it.
+    addKeyframe: (channels) => recorded(() => {
+      const { currentSkeleton, currentTime } = get();
+      editActiveClip(clip => writeKeyframe(clip, currentTime, currentSkeleton, channels));
+    }),
 
+    setKeyframeEasing: (keyframeId, easing) => recorded(() => {
+      const { clips, activeClipId } = get();
       const updatedClips = clips.map(c =>
-          c.id === activeClipId ? { ...c, keyframes: newKeyframes, duration: newDuration } : c
+          c.id === activeClipId
+              ? { ...c, keyframes: c.keyframes.map(kf => kf.id === keyframeId ? { ...kf, easing } : kf) }
+              : c
       );
-
       set({ clips: updatedClips });
+    }),
+
+    selectKeyframes: (ids, additive = false) => {
+      const { selectedKeyframeIds } = get();
+      set({ selectedKeyframeIds: additive ? Array.from(new Set([...selectedKeyframeIds, ...ids])) : ids });
+    },
+
+    moveKeyframes: (ids, delta) => recorded(() => editActiveClip(clip => moveKeyframes(clip, ids, delta))),
+
+    scaleKeyframes: (ids, factor) => recorded(() => editActiveClip(clip => scaleKeyframes(clip, ids, factor))),
+
+    deleteKeyframes: (ids) => recorded(() => {
+      editActiveClip(clip => deleteKeyframes(clip, ids));
+      set(state => ({ selectedKeyframeIds: state.selectedKeyframeIds.filter(id => !ids.includes(id)) }));
+    }),
+
+    // Copies land on the playhead when it is after the selection, otherwise right behind it.
+    // The copies become the new selection.
+    duplicateKeyframes: (ids) => recorded(() => {
+      const { clips, activeClipId, currentTime } = get();
+      const clip = clips.find(c => c.id === activeClipId);
+      const source = clip ? clip.keyframes.filter(kf => ids.includes(kf.id)) : [];
+      if (!clip || source.length === 0) return;
+
+      const start = source[0].timestamp;
+      const end = source[source.length - 1].timestamp;
+      const offset = currentTime > end ? currentTime - start : end - start + DUPLICATE_GAP;
+      const result = duplicateKeyframes(clip, ids, offset);
+      set({
+          clips: clips.map(c => c.id === activeClipId ? result.clip : c),
+          selectedKeyframeIds: result.copyIds
+      });
+    }),
+
+    replaceKeyframePose: (keyframeId) => recorded(() => {
+      const { currentSkeleton } = get();
+      editActiveClip(clip => ({
+          ...clip,
+          keyframes: clip.keyframes.map(kf => kf.id === keyframeId ? { ...kf, skeleton: currentSkeleton.clone(), channels: undefined } : kf)
+      }));
+    }),
+
+    // Edit a joint inside a stored keyframe (motion path markers). The live pose is then
+    // re-evaluated so it shows the edited clip.
+    // Keys that only hold some channels are edited through the full pose at their time and
+    // take in the channels the drag changed.
+    updateKeyframeNodePosition: (keyframeId, nodeId, position) => recorded(() => {
+      editActiveClip(clip => {
+          const kf = clip.keyframes.find(k => k.id === keyframeId);
+          const pose = kf && sampleClip(clip, kf.timestamp);
+          if (!kf || !pose || !pose.root.findNode(nodeId)) return clip;
+          const before = captureChannels(pose);
+          dragNode(pose, nodeId, position);
+          return writeKeyframe(clip, kf.timestamp, pose, kf.channels && changedChannels(before, pose));
+      });
+      get().setCurrentTime(get().currentTime);
+    }),
+
+    reverseClip: () => recorded(() => {
+      const clip = getActiveClip();
+      if (clip) insertDerivedClips([reverseClip(clip)]);
+    }),
+
+    retimeClip: (factor) => recorded(() => {
+      const clip = getActiveClip();
+      if (clip && factor > 0) insertDerivedClips([retimeClip(clip, factor)]);
+    }),
+
+    retimeClipToDuration: (duration) => recorded(() => {
+      const clip = getActiveClip();
+      if (clip && duration > 0) insertDerivedClips([retimeClipToDuration(clip, duration)]);
+    }),
+
+    trimClip: (start, end) => recorded(() => {
+      const clip = getActiveClip();
+      if (clip && Math.abs(end - start) > 0) insertDerivedClips([trimClip(clip, start, end)]);
+    }),
+
+    pingPongClip: () => recorded(() => {
+      const clip = getActiveClip();
+      if (clip) insertDerivedClips([pingPongClip(clip)]);
+    }),
+
+    appendClip: (otherClipId, gap) => recorded(() => {
+      const clip = getActiveClip();
+      const other = get().clips.find(c => c.id === otherClipId);
+      if (clip && other) insertDerivedClips([appendClip(clip, other, gap)]);
+    }),
+
+    // Nothing to split with the playhead at either end
+    splitClip: () => recorded(() => {
+      const clip = getActiveClip();
+      const time = get().currentTime;
+      if (clip && time > 0 && time < clip.duration) insertDerivedClips(splitClip(clip, time));
+    }),
+
+    extractRootMotion: (withYaw) => recorded(() => {
+      editActiveClip(clip => extractRootMotion(clip, withYaw));
+      get().setCurrentTime(get().currentTime);
+    }),
+
+    bakeRootMotion: () => recorded(() => {
+      editActiveClip(clip => bakeRootMotion(clip));
+      get().setCurrentTime(get().currentTime);
+    }),
+
+    generateGait: (params, name) => recorded(() => {
+      insertDerivedClips([generateGait(get().currentSkeleton, params, name || 'Walk')]);
+    }),
+
+    savePose: (name, jointIds) => {
+      const pose = createPose(get().currentSkeleton, name || `Pose ${get().poses.length + 1}`, jointIds);
+      set(state => ({ poses: [...state.poses, pose] }));
+    },
+
+    applyPose: (id, blend, asKeyframe = false) => recorded(() => {
+      const { currentSkeleton, poses } = get();
+      const pose = poses.find(p => p.id === id);
+      if (!pose) return;
+      const before = captureChannels(currentSkeleton);
+      const joints = applyPose(currentSkeleton, pose, blend);
+      set({ currentSkeleton: currentSkeleton });
+      if (asKeyframe) {
+          if (joints.length > 0) get().addKeyframe(joints);
+      } else {
+          autoKeyPose(before);
+      }
+    }),
+
+    renamePose: (id, name) => set(state => ({ poses: state.poses.map(p => p.id === id ? { ...p, name } : p) })),
+
+    deletePose: (id) => set(state => ({ poses: state.poses.filter(p => p.id !== id) })),
+
+    importPoses: (json) => {
+      try {
+          const imported = parsePoseLibrary(json);
+          set(state => ({
+              poses: [...state.poses.filter(p => !imported.some(i => i.id === p.id)), ...imported]
+          }));
+      } catch (e) {
+          console.error("Failed to import poses", e);
+          alert("Error loading pose library.");
+      }
     },
 
-    loadProject: (json) => {
+    exportPoses: () => serializePoseLibrary(get().poses),
+
+    copyPose: (jointIds) => copyPoseToText(get().currentSkeleton, jointIds),
+
+    pastePose: (text, mirror = false) => {
+      const pose = parsePoseClipboard(text);
+      if (!pose) return false;
+      recorded(() => {
+          const { currentSkeleton, modeType } = get();
+          const before = captureChannels(currentSkeleton);
+          const joints = pastePose(currentSkeleton, pose, mirror);
+          set({ currentSkeleton: currentSkeleton });
+          // Pasting is how poses move between keyframes and clips, so it always keys when animating
+          if (modeType === 'animate' && !get().isPlaying) {
+              if (joints.length > 0) get().addKeyframe(joints);
+          } else {
+              autoKeyPose(before);
+          }
+      });
+      return true;
+    },
+
+    // Adds a marker at the playhead and selects it
+    addMarker: (name = 'event') => recorded(() => {
+      const { clips, activeClipId, currentTime } = get();
+      const clip = clips.find(c => c.id === activeClipId);
+      if (!clip) return;
+      const result = addMarker(clip, name, currentTime);
+      set({
+          clips: clips.map(c => c.id === activeClipId ? result.clip : c),
+          selectedMarkerId: result.markerId
+      });
+    }),
+
+    updateMarker: (id, changes) => recorded(() => editActiveClip(clip => updateMarker(clip, id, changes))),
+
+    deleteMarker: (id) => recorded(() => {
+      editActiveClip(clip => deleteMarker(clip, id));
+      set(state => ({ selectedMarkerId: state.selectedMarkerId === id ? null : state.selectedMarkerId }));
+    }),
+
+    selectMarker: (id) => set({ selectedMarkerId: id }),
+
+    loadProject: (json) => recorded(() => {
         try {
             const data = JSON.parse(json);
             const isSa3 = data.format === 'sa3' || !!data.skin || !!data.polygons;
@@ -429,7 +1046,11 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
                         (nodeData.position.z || 0) * SCALE
                     );
                 }
-                const node = new StickmanNode(nodeData.id || nodeData.name, pos, nodeData.id);
+                const node = new StickmanNode(nodeData.name || nodeData.id, pos, nodeData.id);
+                if (Array.isArray(nodeData.rot)) {
+                    node.rotation.fromArray(nodeData.rot);
+                }
+                node.style = parseNodeStyle(nodeData.style);
                 if (nodeData.children) {
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                     nodeData.children.forEach((childData: any) => node.addChild(reconstructNode(childData)));
@@ -437,26 +1058,34 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
                 return node;
             };
 
+            // Clips of one character. Scene files carry rig and sizes per actor, older files at the top level
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const reconstructedClips: StickmanClip[] = clipsData.map((clipData: any) => {
+            const reconstructClips = (source: any): StickmanClip[] => source.clips.map((clipData: any) => {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 const keyframes = (clipData.keyframes || []).map((kf: any) => {
                     const skelData = kf.pose || kf.skeleton;
                     // Scale radius and stroke width too
+                    const root = reconstructNode(skelData.root || skelData);
                     const skeleton = new StickmanSkeleton(
-                        undefined,
-                        (skelData.headRadius || data.headRadius || 0.1) * SCALE,
-                        (skelData.strokeWidth || data.strokeWidth || 0.02) * SCALE
+                        root,
+                        (skelData.headRadius || source.headRadius || data.headRadius || 0.1) * SCALE,
+                        (skelData.strokeWidth || source.strokeWidth || data.strokeWidth || 0.02) * SCALE,
+                        parseRig(source.rig, root)
                     );
-                    skeleton.root = reconstructNode(skelData.root || skelData);
+                    // Positions are authoritative on load; derive rotations and bone lengths from them
+                    skeleton.updateLocalTransforms();
                     return {
                         id: kf.id || uuidv4(),
                         timestamp: kf.timestamp || (kf.frameIndex ? kf.frameIndex / 30.0 : 0),
-                        skeleton: skeleton
+                        skeleton: skeleton,
+                        easing: parseEasing(kf.easing),
+                        // Whole-pose keys of older files become keys of every channel
+                        channels: parseChannels(kf.channels) || getChannels(skeleton)
                     };
                 });
+                // Scene files keep the duration set on the clip; legacy files end on their last key
                 let duration = clipData.duration || 5.0;
-                if (keyframes.length > 0) {
+                if (keyframes.length > 0 && !(isSa3 && clipData.duration > 0)) {
                      const maxTime = Math.max(...keyframes.map((k: any) => k.timestamp));
                      duration = maxTime > 0 ? maxTime : 5.0;
                 }
@@ -464,19 +1093,44 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
                     id: clipData.id || uuidv4(),
                     name: clipData.name || "Imported Animation",
                     duration: duration,
-                    keyframes: keyframes
+                    keyframes: keyframes,
+                    interpolation: clipData.interpolation === 'position' ? 'position' : 'rotation',
+                    curve: clipData.curve === 'spline' ? 'spline' : 'linear',
+                    markers: parseMarkers(clipData.markers),
+                    rootMotion: parseRootMotion(clipData.rootMotion),
+                    ...parseClipPlayback(clipData)
                 };
             });
 
-            const firstClip = reconstructedClips[0];
-            const startSkel = firstClip.keyframes.length > 0
-                ? firstClip.keyframes[0].skeleton.clone()
-                : new StickmanSkeleton();
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const reconstructActor = (source: any, index: number): StickmanActor => {
+                const actorClips = reconstructClips(source);
+                if (actorClips.length === 0) actorClips.push(createDefaultClip());
+                const activeClip = actorClips.find(c => c.id === source.activeClipId) || actorClips[0];
+                return {
+                    id: source.id || uuidv4(),
+                    name: source.name || `Actor ${index + 1}`,
+                    position: Array.isArray(source.position) ? new Vector3().fromArray(source.position) : new Vector3(),
+                    skeleton: sampleClip(activeClip, 0) || new StickmanSkeleton(),
+                    clips: actorClips,
+                    activeClipId: activeClip.id
+                };
+            };
+
+            const actors: StickmanActor[] = Array.isArray(data.actors) && data.actors.length > 0
+                ? data.actors.map(reconstructActor)
+                : [reconstructActor({ clips: clipsData, rig: data.rig }, 0)];
+            const activeActor = actors.find(a => a.id === data.activeActorId) || actors[0];
 
             set({
-                clips: reconstructedClips,
-                activeClipId: firstClip.id,
-                currentSkeleton: startSkel,
+                actors: actors,
+                activeActorId: activeActor.id,
+                clips: activeActor.clips,
+                activeClipId: activeActor.activeClipId,
+                currentSkeleton: activeActor.skeleton,
+                selectedNodeId: null,
+                selectedKeyframeIds: [],
+                selectedMarkerId: null,
                 currentTime: 0,
                 isPlaying: false,
                 skin: data.skin || null,
@@ -487,10 +1141,10 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
             console.error("Failed to load project", e);
             alert("Error loading file.");
         }
-    },
+    }),
 
     saveProject: (format = 'sa3') => {
-        const { clips, currentSkeleton, activeClipId, skin, polygons } = get();
+        const { clips, currentSkeleton, activeClipId, activeActorId, skin, polygons } = get();
 
         if (format === 'sap') {
             // Legacy Export Logic
@@ -503,6 +1157,7 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const serializeNodeLegacy = (node: StickmanNode): any => ({
                 id: node.id,
+                name: node.name,
                 // Apply Inverse Transform: x*4, y*-4, z*4
                 pos: [
                     node.position.x * LEGACY_SCALE,
@@ -518,15 +1173,19 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
                 duration: activeClip.duration,
                 headRadius: currentSkeleton.headRadius * LEGACY_SCALE,
                 strokeWidth: currentSkeleton.strokeWidth * LEGACY_SCALE,
-                keyframes: activeClip.keyframes.map(kf => ({
-                    id: kf.id,
-                    timestamp: kf.timestamp,
-                    pose: {
-                        root: serializeNodeLegacy(kf.skeleton.root),
-                        headRadius: kf.skeleton.headRadius * LEGACY_SCALE,
-                        strokeWidth: kf.skeleton.strokeWidth * LEGACY_SCALE
-                    }
-                }))
+                keyframes: activeClip.keyframes.map(kf => {
+                    // The legacy format only knows whole poses
+                    const pose = isWholeKeyframe(kf) ? kf.skeleton : sampleClip(activeClip, kf.timestamp)!;
+                    return {
+                        id: kf.id,
+                        timestamp: kf.timestamp,
+                        pose: {
+                            root: serializeNodeLegacy(pose.root),
+                            headRadius: pose.headRadius * LEGACY_SCALE,
+                            strokeWidth: pose.strokeWidth * LEGACY_SCALE
+                        }
+                    };
+                })
             };
             return JSON.stringify(data, null, 2);
         }
@@ -535,14 +1194,20 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const serializeNode = (node: StickmanNode): any => ({
             id: node.id,
+            name: node.name,
             pos: [node.position.x, node.position.y, node.position.z],
+            rot: node.rotation.toArray(),
+            len: node.length,
+            style: node.style,
             children: node.children.map(serializeNode)
         });
-        const serializedClips = clips.map(clip => ({
+        const serializeClips = (source: StickmanClip[]) => source.map(clip => ({
             ...clip,
             keyframes: clip.keyframes.map(kf => ({
                 id: kf.id,
                 timestamp: kf.timestamp,
+                easing: kf.easing,
+                channels: kf.channels,
                 pose: {
                     root: serializeNode(kf.skeleton.root),
                     headRadius: kf.skeleton.headRadius,
@@ -553,15 +1218,56 @@ export const useStickmanStore = create<StickmanState>((set, get) => {
         const data = {
             format: format,
             version: 3,
-            clips: serializedClips,
+            // The active actor is also written at the top level so single-character readers can load the file
+            clips: serializeClips(clips),
             headRadius: currentSkeleton.headRadius,
             strokeWidth: currentSkeleton.strokeWidth,
+            rig: currentSkeleton.rig,
+            activeActorId: activeActorId,
+            actors: syncActors().map(actor => ({
+                id: actor.id,
+                name: actor.name,
+                position: actor.position.toArray(),
+                activeClipId: actor.activeClipId,
+                headRadius: actor.skeleton.headRadius,
+                strokeWidth: actor.skeleton.strokeWidth,
+                rig: actor.skeleton.rig,
+                clips: serializeClips(actor.clips)
+            })),
             skin: skin || {},
             polygons: polygons || []
         };
         return JSON.stringify(data, null, 2);
     },
 
-    setCurrentTime: (time) => set({ currentTime: time }),
+    // Every time change (playback or scrubbing) evaluates the active clip of each actor at that time
+    setCurrentTime: (time) => {
+      const { currentSkeleton, clips, activeClipId, actors, activeActorId } = get();
+      const clip = clips.find(c => c.id === activeClipId);
+      const pose = clip ? sampleClip(clip, time) : null;
+      if (pose) copySampledPose(currentSkeleton, pose);
+
+      actors.forEach(actor => {
+          if (actor.id === activeActorId) return;
+          const actorClip = actor.clips.find(c => c.id === actor.activeClipId);
+          const actorPose = actorClip ? sampleClip(actorClip, time) : null;
+          if (actorPose) copySampledPose(actor.skeleton, actorPose);
+      });
+
+      set({ currentTime: time, currentSkeleton: currentSkeleton });
+    },
   };
 });
+
+// Group every edit until the pointer is released into one undo step (slider and timeline drags)
+export const beginHistoryGesture = () => {
+  const { beginHistory, commitHistory } = useStickmanStore.getState();
+  beginHistory();
+  const end = () => {
+    window.removeEventListener('pointerup', end);
+    window.removeEventListener('pointercancel', end);
+    commitHistory();
+  };
+  window.addEventListener('pointerup', end);
+  window.addEventListener('pointercancel', end);
+};